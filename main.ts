@@ -1,19 +1,84 @@
-import { App, Plugin, PluginSettingTab, Setting, TextComponent, ButtonComponent } from 'obsidian';
+import {
+	App,
+	Notice,
+	Plugin,
+	PluginSettingTab,
+	Setting,
+	TFile,
+	TextComponent,
+	ButtonComponent,
+} from 'obsidian';
 import { FolderSuggestModal } from 'src/FolderSuggestModal';
+import { TypeSuggestModal } from 'src/TypeSuggestModal';
+import { renderFilterGroup } from 'src/FilterEditor';
 import { EloCompareView, VIEW_TYPE_ELO } from 'src/EloCompareView';
-import type { EloCompareSettings, PluginInfo, ComparisonTypeConfig } from 'src/types';
-import { deleteTypeStorage } from 'src/storage';
+import { COMPARISON_KEYS } from 'src/comparison-keys';
+import { RATING_ENGINES, getRatingEngine } from 'src/engines';
+import {
+	DEFAULT_EXPLORATION_RATE,
+	DEFAULT_ITEM_COOLDOWN,
+	DEFAULT_K_FACTOR,
+	DEFAULT_PAIR_COOLDOWN,
+	DEFAULT_PROVISIONAL_GAMES,
+	DEFAULT_PROVISIONAL_K_FACTOR,
+	DEFAULT_TOP_K,
+	DEFAULT_TOP_K_STABLE_WINDOW,
+	MAX_AGE_DAYS,
+	MAX_EVENTS,
+	MAX_RECENT_ROUNDS,
+} from 'src/constants';
+import type {
+	EloCompareSettings,
+	PluginInfo,
+	ComparisonTypeConfig,
+	ComparisonActions,
+	RatingEngineId,
+	PairStrategyId,
+	SessionSummary,
+	StoreType,
+} from 'src/types';
+import {
+	appendSession,
+	deleteTypeStorage,
+	findCriterionStores,
+	findOrphanedTypes,
+	moveTypeStorageWithCriteria,
+	notifyStoreChanged,
+	queueStoreTask,
+	readRatings,
+	readStore,
+	rewriteStore,
+} from 'src/storage';
+import {
+	getFrontmatterKeys,
+	removeRatingsFromFrontmatter,
+	syncRatingsToFrontmatter,
+} from 'src/helpers/frontmatter-sync';
+import { isFileInPool, renameFilterType } from 'src/helpers/file-filtering';
+import { createTypeConfig, getDefaultDisplayName } from 'src/helpers/type-config';
+import {
+	createCriterionId,
+	getCriterionStoreName,
+	getTypeStoreNames,
+} from 'src/helpers/criteria';
+import {
+	clearDeletedInStore,
+	markDeletedInStore,
+	renameIdsInStore,
+} from 'src/helpers/file-tracking';
+import { createKFactorSchedule } from 'src/helpers/k-factor';
+import { getStoreSnapshots } from 'src/helpers/event-log';
+import { rebuildStore } from 'src/helpers/rebuild';
+import { PAIR_STRATEGIES } from 'src/helpers/pair-selection';
+import { RebuildReportModal } from 'src/RebuildReportModal';
+import { ExportModal } from 'src/ExportModal';
+import { ImportModal } from 'src/ImportModal';
+import { LEADERBOARD_BLOCK, LeaderboardBlock } from 'src/LeaderboardBlock';
 
 export const DEFAULT_SETTINGS: EloCompareSettings = {
 	defaultComparisonType: 'default',
 	typeConfigs: {
-		default: {
-			name: 'default',
-			displayName: 'Default',
-			defaultFolder: '',
-			frontmatterProperty: 'rating',
-			includeSubfolders: false,
-		},
+		default: createTypeConfig('default'),
 	},
 };
 
@@ -60,10 +125,85 @@ export default class EloCompare extends Plugin {
 				this.app.workspace.revealLeaf(leaf);
 			},
 		});
+		// Commands that act on the comparison in the active Elo view. Their default keys are
+		// bound in the view's scope only (see COMPARISON_KEYS); users can add global hotkeys.
+		for (const binding of COMPARISON_KEYS) {
+			this.addCommand({
+				id: binding.id,
+				name: binding.name,
+				checkCallback: (checking) => this.runViewAction(checking, binding.run),
+			});
+		}
+
+		this.addCommand({
+			id: 'rebuild-ratings',
+			name: 'Rebuild ratings from events',
+			callback: () => this.chooseType((config) => this.rebuildRatings(config)),
+		});
+
+		// Commands to mirror ratings into note frontmatter
+		this.addCommand({
+			id: 'sync-ratings-to-frontmatter',
+			name: 'Sync all ratings to frontmatter',
+			callback: () => this.chooseType((config) => this.syncFrontmatter(config)),
+		});
+
+		this.addCommand({
+			id: 'remove-ratings-from-frontmatter',
+			name: 'Remove ratings from frontmatter',
+			callback: () => this.chooseType((config) => this.clearFrontmatter(config)),
+		});
+
+		this.addCommand({
+			id: 'export-ratings',
+			name: 'Export leaderboard or history',
+			callback: () => this.chooseType((config) => new ExportModal(this.app, config).open()),
+		});
+
+		this.addCommand({
+			id: 'import-ratings',
+			name: 'Import ratings or comparison results',
+			callback: () => this.chooseType((config) => this.importRatings(config)),
+		});
+
+		// Rankings embedded in notes with an elo-leaderboard code block
+		this.registerMarkdownCodeBlockProcessor(LEADERBOARD_BLOCK, (source, el, ctx) => {
+			ctx.addChild(new LeaderboardBlock(el, this.app, this.settings, source, ctx.sourcePath));
+		});
+
 		// Perform additional things with the ribbon
 		ribbonIconEl.addClass('my-plugin-ribbon-class');
 		// This adds a complex command that can check whether the current state of the app allows execution of the command
 
+		// Keep ratings attached to notes when they are renamed, moved or deleted
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.rewriteStores((store) => renameIdsInStore(store, oldPath, file.path)).catch(
+					() => new Notice(`Failed to move the ratings of "${oldPath}" to its new path`)
+				);
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				this.rewriteStores((store) => markDeletedInStore(store, file.path)).catch(
+					() => new Notice(`Failed to mark the ratings of "${file.path}" as deleted`)
+				);
+			})
+		);
+
+		// A note created again at a deleted note's path (e.g. restored) gets its ratings back.
+		// Files are also "created" while the vault loads, so only listen once it has.
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					this.rewriteStores((store) => clearDeletedInStore(store, file.path)).catch(
+						() => new Notice(`Failed to restore the ratings of "${file.path}"`)
+					);
+				})
+			);
+		});
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new EloCompareSettingTab(this.app, this));
 	}
@@ -81,20 +221,13 @@ export default class EloCompare extends Plugin {
 
 		// Ensure default type config exists
 		if (!this.settings.typeConfigs['default']) {
-			this.settings.typeConfigs['default'] = {
-				name: 'default',
-				displayName: 'Default',
-				defaultFolder: '',
-				frontmatterProperty: 'rating',
-				includeSubfolders: false,
-			};
+			this.settings.typeConfigs['default'] = createTypeConfig('default');
 		}
 
 		// Ensure all type configs have displayName
 		for (const [typeId, config] of Object.entries(this.settings.typeConfigs)) {
 			if (!config.displayName) {
-				config.displayName =
-					typeId.charAt(0).toUpperCase() + typeId.slice(1).replace(/-/g, ' ');
+				config.displayName = getDefaultDisplayName(typeId);
 			}
 		}
 
@@ -107,6 +240,157 @@ export default class EloCompare extends Plugin {
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
+
+	/**
+	 * Applies a rewrite to the store of every comparison type and criterion and saves the
+	 * changed ones. The rewrite returns null when a store is unaffected; views that save a copy
+	 * read before it get it applied too. Rejects after trying every store if any of them failed.
+	 */
+	rewriteStores(
+		rewrite: (store: StoreType, storeName: string) => StoreType | null
+	): Promise<void> {
+		return queueStoreTask(async () => {
+			const failed: string[] = [];
+			const configs = Object.values(this.settings.typeConfigs || {});
+			for (const storeName of configs.flatMap((config) => getTypeStoreNames(config))) {
+				try {
+					const rewriteOne = (store: StoreType) => rewrite(store, storeName);
+					if (await rewriteStore(this.app.vault, storeName, rewriteOne)) {
+						notifyStoreChanged(storeName);
+					}
+				} catch (e) {
+					console.error('[EloCompare] Failed to update store:', storeName, e);
+					failed.push(storeName);
+				}
+			}
+			if (failed.length > 0) {
+				throw new Error(`Failed to update store(s): ${failed.join(', ')}`);
+			}
+		});
+	}
+
+	/**
+	 * Saves the summary of a session whose store is no longer shown, in line with the
+	 * other store rewrites
+	 */
+	saveSession(storeName: string, summary: SessionSummary): Promise<void> {
+		return queueStoreTask(() => appendSession(this.app.vault, summary, storeName));
+	}
+
+	/**
+	 * Replays the event log of a type and shows a report before replacing the stored ratings
+	 */
+	async rebuildRatings(config: ComparisonTypeConfig): Promise<void> {
+		const rebuild = (store: StoreType) =>
+			rebuildStore(
+				store,
+				getRatingEngine(config.ratingEngine),
+				createKFactorSchedule(config),
+				(id) => this.app.vault.getAbstractFileByPath(id) instanceof TFile
+			);
+		const report = rebuild(await readStore(this.app.vault, config.name));
+
+		new RebuildReportModal(this.app, config, report, async () => {
+			// Comparisons may have been made while the report was open, so rebuild again
+			let changed = report.changed.length;
+			try {
+				await this.rewriteStores((current, typeName) => {
+					if (typeName !== config.name) return null;
+					const rebuilt = rebuild(current);
+					changed = rebuilt.changed.length;
+					return rebuilt.store;
+				});
+			} catch (e) {
+				alert('Failed to save the rebuilt ratings. Check console for details.');
+				return;
+			}
+			if (config.writeToFrontmatter) {
+				await this.syncFrontmatter(config);
+			}
+			new Notice(`Rebuilt ${changed} rating(s) for "${config.displayName}"`);
+		}).open();
+	}
+
+	/**
+	 * Imports ratings or comparison results from a file; imported results are replayed
+	 */
+	importRatings(config: ComparisonTypeConfig): void {
+		const engine = getRatingEngine(config.ratingEngine);
+		const kSchedule = createKFactorSchedule(config);
+		new ImportModal(this.app, config, async (apply, preview) => {
+			await this.rewriteStores((store, typeName) => {
+				if (typeName !== config.name) return null;
+				// A legacy log gets its baseline before imported seeds are added to it
+				const imported = apply({
+					...store,
+					snapshots: getStoreSnapshots(store, engine, kSchedule),
+				});
+				if (preview.kind === 'ratings') return imported;
+				return rebuildStore(
+					imported,
+					engine,
+					kSchedule,
+					(id) => this.app.vault.getAbstractFileByPath(id) instanceof TFile
+				).store;
+			});
+			if (config.writeToFrontmatter) {
+				await this.syncFrontmatter(config);
+			}
+			const count =
+				preview.kind === 'ratings' ? preview.ratings.length : preview.results.length;
+			const what = preview.kind === 'ratings' ? 'rating' : 'result';
+			new Notice(`Imported ${count} ${what}(s) into "${config.displayName}"`);
+		}).open();
+	}
+
+	/**
+	 * Runs an action on the active Elo view, for use in command check callbacks
+	 */
+	runViewAction(checking: boolean, action: (actions: ComparisonActions) => void): boolean {
+		const view = this.app.workspace.getActiveViewOfType(EloCompareView);
+		const actions = view?.actions.current;
+		if (!actions) return false;
+		if (!checking) action(actions);
+		return true;
+	}
+
+	/**
+	 * Lets the user pick a comparison type, skipping the prompt if there is only one
+	 */
+	chooseType(onChoose: (config: ComparisonTypeConfig) => void): void {
+		const configs = Object.values(this.settings.typeConfigs || {});
+		if (configs.length === 1) {
+			onChoose(configs[0]);
+			return;
+		}
+		new TypeSuggestModal(this.app, configs, onChoose).open();
+	}
+
+	/**
+	 * Writes every stored rating of a type into its note's frontmatter
+	 */
+	async syncFrontmatter(config: ComparisonTypeConfig): Promise<void> {
+		const ratings = await readRatings(this.app.vault, config.name);
+		const updated = await syncRatingsToFrontmatter(this.app, ratings, config);
+		new Notice(`Wrote ratings to ${updated} note(s) for "${config.displayName}"`);
+	}
+
+	/**
+	 * Removes the rating properties of a type from all rated notes
+	 */
+	async clearFrontmatter(config: ComparisonTypeConfig): Promise<void> {
+		const keys = getFrontmatterKeys(config);
+		if (
+			!confirm(
+				`Remove "${keys.rating}", "${keys.games}" and "${keys.last}" from all notes rated in "${config.displayName}"?`
+			)
+		) {
+			return;
+		}
+		const ratings = await readRatings(this.app.vault, config.name);
+		const updated = await removeRatingsFromFrontmatter(this.app, ratings, config);
+		new Notice(`Removed ratings from ${updated} note(s) for "${config.displayName}"`);
+	}
 }
 
 class EloCompareSettingTab extends PluginSettingTab {
@@ -146,6 +430,103 @@ class EloCompareSettingTab extends PluginSettingTab {
 						this.showAddTypeModal();
 					});
 			});
+
+		// Storage repair for history left behind by removed or renamed types
+		containerEl.createEl('h2', { text: 'Storage' });
+		const repairEl = containerEl.createDiv();
+		new Setting(containerEl)
+			.setName('Repair storage')
+			.setDesc('Find ratings and history files that belong to no comparison type')
+			.addButton((button: ButtonComponent) => {
+				button.setButtonText('Scan').onClick(() => this.renderOrphans(repairEl));
+			});
+	}
+
+	private async renderOrphans(containerEl: HTMLElement): Promise<void> {
+		containerEl.empty();
+		const typeConfigs = this.plugin.settings.typeConfigs || {};
+		const orphans = await findOrphanedTypes(this.app.vault, Object.keys(typeConfigs));
+
+		if (orphans.length === 0) {
+			containerEl.createEl('p', {
+				text: 'No orphaned storage files found.',
+				cls: 'setting-item-description',
+			});
+			return;
+		}
+
+		for (const orphan of orphans) {
+			let target = orphan;
+			new Setting(containerEl)
+				.setName(`Orphaned data: "${orphan}"`)
+				.setDesc('Re-attach it to a comparison type (merging with its data) or delete it')
+				.addDropdown((dropdown) => {
+					dropdown.addOption(orphan, `New type "${orphan}"`);
+					for (const [typeName, config] of Object.entries(typeConfigs)) {
+						dropdown.addOption(typeName, config.displayName || typeName);
+					}
+					dropdown.setValue(target).onChange((value) => (target = value));
+				})
+				.addButton((button) =>
+					button.setButtonText('Re-attach').onClick(async () => {
+						await this.reattachOrphan(orphan, target);
+						this.display();
+					})
+				)
+				.addButton((button) =>
+					button
+						.setButtonText('Delete')
+						.setWarning()
+						.onClick(async () => {
+							if (!confirm(`Delete all ratings and history stored as "${orphan}"?`)) {
+								return;
+							}
+							const criterionStores = await findCriterionStores(
+								this.app.vault,
+								orphan
+							);
+							try {
+								for (const name of [orphan, ...criterionStores]) {
+									await deleteTypeStorage(this.app.vault, name);
+								}
+							} catch (e) {
+								alert('Failed to delete the data. Check console for details.');
+							}
+							await this.renderOrphans(containerEl);
+						})
+				);
+		}
+	}
+
+	private async reattachOrphan(orphan: string, target: string): Promise<void> {
+		const typeConfigs = this.plugin.settings.typeConfigs || {};
+		const criterionIds = (await findCriterionStores(this.app.vault, orphan)).map((name) =>
+			name.slice(orphan.length + 1)
+		);
+		if (!typeConfigs[target]) {
+			// Re-create a configuration for the orphaned storage
+			typeConfigs[target] = createTypeConfig(target, typeConfigs['default']);
+		} else {
+			try {
+				await moveTypeStorageWithCriteria(this.app.vault, orphan, target);
+			} catch (e) {
+				alert('Failed to re-attach the orphaned data. Check console for details.');
+				return;
+			}
+		}
+
+		// Criteria of the orphaned data become criteria of the type, so their data stays reachable
+		const config = typeConfigs[target];
+		const criteria = config.criteria ?? [];
+		for (const id of criterionIds) {
+			if (!criteria.some((criterion) => criterion.id === id)) {
+				criteria.push({ id, name: id });
+			}
+		}
+		if (criteria.length > 0) config.criteria = criteria;
+		this.plugin.settings.typeConfigs = typeConfigs;
+		await this.plugin.saveSettings();
+		getTypeStoreNames(config).forEach((name) => notifyStoreChanged(name));
 	}
 
 	private ensureSettingsInitialized(): void {
@@ -156,20 +537,13 @@ class EloCompareSettingTab extends PluginSettingTab {
 
 		// Ensure default type config exists
 		if (!this.plugin.settings.typeConfigs['default']) {
-			this.plugin.settings.typeConfigs['default'] = {
-				name: 'default',
-				displayName: 'Default',
-				defaultFolder: '',
-				frontmatterProperty: 'rating',
-				includeSubfolders: false,
-			};
+			this.plugin.settings.typeConfigs['default'] = createTypeConfig('default');
 		}
 
 		// Ensure all type configs have displayName
 		for (const [typeId, config] of Object.entries(this.plugin.settings.typeConfigs)) {
 			if (!config.displayName) {
-				config.displayName =
-					typeId.charAt(0).toUpperCase() + typeId.slice(1).replace(/-/g, ' ');
+				config.displayName = getDefaultDisplayName(typeId);
 			}
 		}
 
@@ -283,22 +657,26 @@ class EloCompareSettingTab extends PluginSettingTab {
 			.setName('Type ID')
 			.setDesc('Internal identifier for this comparison type (used for storage)')
 			.addText((text) => {
-				text.setValue(config.name)
-					.setPlaceholder('e.g., books, movies')
-					.onChange(async (value) => {
-						const sanitized = value
-							.trim()
-							.toLowerCase()
-							.replace(/[^a-z0-9-_]/g, '-');
-						if (sanitized && sanitized !== typeName) {
-							// Rename the type
-							await this.renameType(typeName, sanitized);
-							this.display(); // Refresh
-						} else if (sanitized) {
-							config.name = sanitized;
-							await this.plugin.saveSettings();
-						}
-					});
+				text.setValue(config.name).setPlaceholder('e.g., books, movies');
+				// Renaming moves the type's storage, so it is applied once editing ends
+				const applyRename = async () => {
+					const sanitized = text
+						.getValue()
+						.trim()
+						.toLowerCase()
+						.replace(/[^a-z0-9-_]/g, '-');
+					if (!sanitized || sanitized === typeName) {
+						text.setValue(typeName);
+						return;
+					}
+					text.inputEl.onblur = null;
+					await this.renameType(typeName, sanitized);
+					this.display(); // Refresh
+				};
+				text.inputEl.onblur = () => void applyRename();
+				text.inputEl.onkeydown = (e) => {
+					if (e.key === 'Enter') text.inputEl.blur();
+				};
 				return text;
 			});
 
@@ -312,6 +690,7 @@ class EloCompareSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						config.defaultFolder = value;
 						await this.plugin.saveSettings();
+						updateMatchCount();
 					});
 				return text;
 			})
@@ -322,6 +701,7 @@ class EloCompareSettingTab extends PluginSettingTab {
 						const textComp = folderSetting.components[0] as TextComponent | undefined;
 						if (textComp) textComp.setValue(chosenPath);
 						await this.plugin.saveSettings();
+						updateMatchCount();
 					}).open();
 				})
 			);
@@ -329,7 +709,7 @@ class EloCompareSettingTab extends PluginSettingTab {
 		// Frontmatter property setting
 		new Setting(typeSection)
 			.setName('Frontmatter property')
-			.setDesc('Frontmatter property name to filter files for this type')
+			.setDesc('Frontmatter property the rating is written to for this type')
 			.addText((text) => {
 				text.setPlaceholder('e.g., rating, book-rating')
 					.setValue(config.frontmatterProperty || 'rating')
@@ -348,8 +728,389 @@ class EloCompareSettingTab extends PluginSettingTab {
 				toggle.setValue(!!config.includeSubfolders).onChange(async (value) => {
 					config.includeSubfolders = value;
 					await this.plugin.saveSettings();
+					updateMatchCount();
 				});
 			});
+
+		// Inclusion filter with a live preview of the matching notes
+		const filterEl = typeSection.createDiv();
+		const matchCountSetting = new Setting(typeSection).setName('Matching notes');
+		const updateMatchCount = () => {
+			const count = this.app.vault
+				.getMarkdownFiles()
+				.filter((file) => isFileInPool(file, config, this.app.metadataCache)).length;
+			matchCountSetting.setDesc(`${count} note(s) match the folder and inclusion filter`);
+		};
+		const renderFilter = () => {
+			filterEl.empty();
+			if (!config.filter) {
+				config.filter = { type: 'group', mode: 'and', conditions: [] };
+			}
+			renderFilterGroup(
+				filterEl,
+				config.filter,
+				async () => {
+					await this.plugin.saveSettings();
+					updateMatchCount();
+				},
+				async () => {
+					await this.plugin.saveSettings();
+					renderFilter();
+					updateMatchCount();
+				}
+			);
+		};
+		renderFilter();
+		updateMatchCount();
+
+		// Rating engine setting
+		new Setting(typeSection)
+			.setName('Rating engine')
+			.setDesc(getRatingEngine(config.ratingEngine).description)
+			.addDropdown((dropdown) => {
+				for (const engine of Object.values(RATING_ENGINES)) {
+					dropdown.addOption(engine.id, engine.name);
+				}
+				dropdown.setValue(getRatingEngine(config.ratingEngine).id).onChange(async (value) => {
+					config.ratingEngine = value as RatingEngineId;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		// K-factor settings (only used by Elo)
+		if (getRatingEngine(config.ratingEngine).id === 'elo') {
+			this.addNumberSetting(
+				typeSection,
+				'K-factor',
+				'How far ratings move after each comparison',
+				config.kFactor,
+				DEFAULT_K_FACTOR,
+				(value) => (config.kFactor = value)
+			);
+
+			new Setting(typeSection)
+				.setName('Dynamic K-factor')
+				.setDesc('Use a higher K-factor for provisional items that decays with games played')
+				.addToggle((toggle) => {
+					toggle.setValue(!!config.dynamicKFactor).onChange(async (value) => {
+						config.dynamicKFactor = value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+				});
+
+			if (config.dynamicKFactor) {
+				this.addNumberSetting(
+					typeSection,
+					'Provisional games',
+					'Items with fewer games than this are provisional',
+					config.provisionalGames,
+					DEFAULT_PROVISIONAL_GAMES,
+					(value) => (config.provisionalGames = value)
+				);
+				this.addNumberSetting(
+					typeSection,
+					'Provisional K-factor',
+					"K-factor for an item's first comparison, decaying to the K-factor above",
+					config.provisionalKFactor,
+					DEFAULT_PROVISIONAL_K_FACTOR,
+					(value) => (config.provisionalKFactor = value)
+				);
+				this.addNumberSetting(
+					typeSection,
+					'Rating band threshold',
+					'Optional: items at or above this rating use the rating band K-factor',
+					config.ratingBandThreshold,
+					undefined,
+					(value) => (config.ratingBandThreshold = value)
+				);
+				this.addNumberSetting(
+					typeSection,
+					'Rating band K-factor',
+					'Optional: maximum K-factor for items in the rating band',
+					config.ratingBandKFactor,
+					undefined,
+					(value) => (config.ratingBandKFactor = value)
+				);
+			}
+		}
+
+		// Pair selection settings
+		new Setting(typeSection)
+			.setName('Pairing strategy')
+			.setDesc(PAIR_STRATEGIES[config.pairStrategy ?? 'balanced'].description)
+			.addDropdown((dropdown) => {
+				for (const [id, strategy] of Object.entries(PAIR_STRATEGIES)) {
+					dropdown.addOption(id, strategy.name);
+				}
+				dropdown.setValue(config.pairStrategy ?? 'balanced').onChange(async (value) => {
+					config.pairStrategy = value as PairStrategyId;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		if ((config.pairStrategy ?? 'balanced') !== 'balanced') {
+			new Setting(typeSection)
+				.setName('Exploration rate')
+				.setDesc('Share of pairs picked at random instead of by the strategy, for variety')
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, 0.5, 0.05)
+						.setValue(config.explorationRate ?? DEFAULT_EXPLORATION_RATE)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							config.explorationRate = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		if (config.pairStrategy === 'top-k') {
+			this.addNumberSetting(
+				typeSection,
+				'K',
+				'Number of top places the pairing concentrates on',
+				config.topK,
+				DEFAULT_TOP_K,
+				(value) => (config.topK = value)
+			);
+			this.addNumberSetting(
+				typeSection,
+				'Settled after',
+				'Number of comparisons without a change after which the top K counts as settled',
+				config.topKStableWindow,
+				DEFAULT_TOP_K_STABLE_WINDOW,
+				(value) => (config.topKStableWindow = value)
+			);
+		}
+
+		this.addNumberSetting(
+			typeSection,
+			'Pair cooldown',
+			'Number of comparisons before the same pair can be shown again ' +
+				`(at most ${MAX_RECENT_ROUNDS})`,
+			config.pairCooldown,
+			DEFAULT_PAIR_COOLDOWN,
+			(value) => (config.pairCooldown = value),
+			MAX_RECENT_ROUNDS
+		);
+		this.addNumberSetting(
+			typeSection,
+			'Item cooldown',
+			'Number of comparisons before an item can appear again ' +
+				`(0 to disable, at most ${MAX_RECENT_ROUNDS})`,
+			config.itemCooldown,
+			DEFAULT_ITEM_COOLDOWN,
+			(value) => (config.itemCooldown = value),
+			MAX_RECENT_ROUNDS
+		);
+
+		// History display retention (the event log itself is always kept in full)
+		const retention = config.historyRetention ?? 'count';
+		new Setting(typeSection)
+			.setName('History shown')
+			.setDesc('Which comparisons the history list shows. All comparisons are always kept.')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ all: 'All', count: 'Last N comparisons', age: 'Recent days' })
+					.setValue(retention)
+					.onChange(async (value) => {
+						config.historyRetention = value as 'all' | 'count' | 'age';
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (retention === 'count') {
+			this.addNumberSetting(
+				typeSection,
+				'Number of comparisons',
+				'How many of the latest comparisons the history list shows',
+				config.historyRetentionCount,
+				MAX_EVENTS,
+				(value) => (config.historyRetentionCount = value)
+			);
+		} else if (retention === 'age') {
+			this.addNumberSetting(
+				typeSection,
+				'Number of days',
+				'How many days of comparisons the history list shows',
+				config.historyRetentionDays,
+				MAX_AGE_DAYS,
+				(value) => (config.historyRetentionDays = value)
+			);
+		}
+
+		// Frontmatter write-back settings
+		new Setting(typeSection)
+			.setName('Write ratings to frontmatter')
+			.setDesc(
+				'After every comparison, write the current rating into the frontmatter property of both notes'
+			)
+			.addToggle((toggle) => {
+				toggle.setValue(!!config.writeToFrontmatter).onChange(async (value) => {
+					config.writeToFrontmatter = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		const keys = getFrontmatterKeys(config);
+		new Setting(typeSection)
+			.setName('Also write games')
+			.setDesc(`Write the number of comparisons as "${keys.games}"`)
+			.addToggle((toggle) => {
+				toggle.setValue(!!config.writeGamesToFrontmatter).onChange(async (value) => {
+					config.writeGamesToFrontmatter = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(typeSection)
+			.setName('Also write last compared date')
+			.setDesc(`Write the date of the last comparison as "${keys.last}"`)
+			.addToggle((toggle) => {
+				toggle.setValue(!!config.writeLastToFrontmatter).onChange(async (value) => {
+					config.writeLastToFrontmatter = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(typeSection)
+			.setName('Frontmatter ratings')
+			.setDesc('Write all stored ratings to their notes, or remove them from all rated notes')
+			.addButton((btn) =>
+				btn.setButtonText('Sync all').onClick(() => this.plugin.syncFrontmatter(config))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Remove all')
+					.setWarning()
+					.onClick(() => this.plugin.clearFrontmatter(config))
+			);
+
+		this.renderCriteriaSettings(typeSection, config);
+	}
+
+	/**
+	 * Lists a type's criteria with their weights. Removing a criterion only archives it,
+	 * so its ratings and history come back when it is restored.
+	 */
+	private renderCriteriaSettings(containerEl: HTMLElement, config: ComparisonTypeConfig): void {
+		new Setting(containerEl)
+			.setName('Criteria')
+			.setDesc(
+				'Rank items separately on several aspects, e.g. story and visuals. Each ' +
+					'criterion has its own ratings and history; the weights set the ' +
+					'combined ranking.'
+			)
+			.setHeading();
+
+		const criteria = config.criteria ?? [];
+		const save = async () => {
+			config.criteria = criteria;
+			await this.plugin.saveSettings();
+		};
+
+		for (const criterion of criteria.filter((c) => !c.archived)) {
+			new Setting(containerEl)
+				.setName(criterion.name)
+				.setDesc(
+					`Stored as "${getCriterionStoreName(config.name, criterion.id)}", written to ` +
+						`"${config.frontmatterProperty || 'rating'}-${criterion.id}"`
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder('Name')
+						.setValue(criterion.name)
+						.onChange(async (value) => {
+							if (!value.trim()) return;
+							criterion.name = value.trim();
+							await save();
+						})
+				)
+				.addText((text) => {
+					text.setPlaceholder('1')
+						.setValue(criterion.weight !== undefined ? String(criterion.weight) : '')
+						.onChange(async (value) => {
+							const parsed = parseFloat(value);
+							criterion.weight =
+								Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+							await save();
+						});
+					text.inputEl.type = 'number';
+					text.inputEl.title = 'Weight in the combined ranking';
+					text.inputEl.style.width = '64px';
+					return text;
+				})
+				.addButton((button) =>
+					button.setButtonText('Remove').onClick(async () => {
+						criterion.archived = true;
+						await save();
+						this.display();
+					})
+				);
+		}
+
+		for (const criterion of criteria.filter((c) => c.archived)) {
+			new Setting(containerEl)
+				.setName(`${criterion.name} (removed)`)
+				.setDesc('Its ratings and history are kept and come back when restored')
+				.addButton((button) =>
+					button.setButtonText('Restore').onClick(async () => {
+						criterion.archived = undefined;
+						await save();
+						this.display();
+					})
+				);
+		}
+
+		let newName = '';
+		new Setting(containerEl)
+			.setName('Add criterion')
+			.addText((text) =>
+				text.setPlaceholder('e.g. Story').onChange((value) => (newName = value))
+			)
+			.addButton((button) =>
+				button.setButtonText('Add').onClick(async () => {
+					const name = newName.trim();
+					if (!name) return;
+					criteria.push({ id: createCriterionId(name, criteria), name });
+					await save();
+					this.display();
+				})
+			);
+	}
+
+	/**
+	 * Adds a numeric text setting; empty or invalid input resets the value to undefined
+	 */
+	private addNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		value: number | undefined,
+		placeholder: number | undefined,
+		onChange: (value: number | undefined) => void,
+		max?: number
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) => {
+				text.setPlaceholder(placeholder !== undefined ? String(placeholder) : '')
+					.setValue(value !== undefined ? String(value) : '')
+					.onChange(async (input) => {
+						const parsed = parseFloat(input);
+						const valid = Number.isFinite(parsed) && parsed >= 0;
+						onChange(valid ? Math.min(parsed, max ?? Infinity) : undefined);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+				if (max !== undefined) text.inputEl.max = String(max);
+				return text;
+			});
 	}
 
 	private async showAddTypeModal(): Promise<void> {
@@ -363,26 +1124,8 @@ class EloCompareSettingTab extends PluginSettingTab {
 			alert('A comparison type with this name already exists');
 			return;
 		}
-		// Get default values from existing default type
-		const defaultConfig = typeConfigs['default'] || {
-			name: 'default',
-			displayName: 'Default',
-			defaultFolder: '',
-			frontmatterProperty: 'rating',
-			includeSubfolders: false,
-		};
-
-		// Create display name from sanitized name
-		const displayName = name.charAt(0).toUpperCase() + name.slice(1);
-
-		// Create new type config
-		typeConfigs[name] = {
-			name: name,
-			displayName: displayName,
-			defaultFolder: defaultConfig.defaultFolder,
-			frontmatterProperty: defaultConfig.frontmatterProperty,
-			includeSubfolders: defaultConfig.includeSubfolders,
-		};
+		// Create new type config, with the values of the default type
+		typeConfigs[name] = createTypeConfig(name, typeConfigs['default']);
 
 		// No need to maintain comparisonTypes array - we derive it from typeConfigs keys
 
@@ -400,16 +1143,25 @@ class EloCompareSettingTab extends PluginSettingTab {
 			return;
 		}
 
+		// Move the storage files first so a failed move leaves the type untouched
+		try {
+			await moveTypeStorageWithCriteria(this.app.vault, oldName, newName);
+		} catch (e) {
+			alert('Failed to move the ratings and history of this type. Check console for details.');
+			return;
+		}
+
 		// Move config and update name
 		const oldConfig = typeConfigs[oldName];
 		typeConfigs[newName] = {
 			...oldConfig,
 			name: newName,
-			displayName:
-				oldConfig.displayName ||
-				newName.charAt(0).toUpperCase() + newName.slice(1).replace(/-/g, ' '),
+			displayName: oldConfig.displayName || getDefaultDisplayName(newName),
 		};
 		delete typeConfigs[oldName];
+		// Notes listed under the old name are found again once they list the new one
+		const filter = typeConfigs[newName].filter;
+		if (filter) renameFilterType(filter, oldName, newName);
 
 		// No need to maintain comparisonTypes array - we derive it from typeConfigs keys
 
@@ -418,9 +1170,6 @@ class EloCompareSettingTab extends PluginSettingTab {
 			this.plugin.settings.defaultComparisonType = newName;
 		}
 
-		// Note: We don't rename storage files here - that would require moving files
-		// For now, users should manually handle this or we could add a migration function
-
 		this.plugin.settings.typeConfigs = typeConfigs;
 		await this.plugin.saveSettings();
 	}
@@ -437,8 +1186,17 @@ class EloCompareSettingTab extends PluginSettingTab {
 	}
 
 	private async deleteType(typeName: string): Promise<void> {
-		// Delete storage files
-		await deleteTypeStorage(this.app.vault, typeName);
+		// Delete storage files, including those of the type's criteria.
+		// The type is kept if that fails, so deleting it can be retried.
+		try {
+			const criterionStores = await findCriterionStores(this.app.vault, typeName);
+			for (const name of [typeName, ...criterionStores]) {
+				await deleteTypeStorage(this.app.vault, name);
+			}
+		} catch (e) {
+			alert('Failed to delete the data of this type. Check console for details.');
+			return;
+		}
 
 		// Remove from typeConfigs
 		const typeConfigs = this.plugin.settings.typeConfigs || {};
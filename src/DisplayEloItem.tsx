@@ -1,11 +1,17 @@
 import type { SelectedFile, PluginInfo } from './types';
 import { useCoverImage } from './hooks/useCoverImage';
+import type { RatingPoint } from './helpers/rating-history';
+import { Sparkline } from './components/RatingChart';
 
 interface DisplayEloItemProps {
 	item?: SelectedFile;
 	onChoose: () => void;
 	onRemove?: () => void;
 	pluginInfo: PluginInfo;
+	chooseHint?: string; // Keyboard shortcut shown on the choose button
+	removeHint?: string; // Keyboard shortcut shown on the remove button
+	history?: RatingPoint[]; // Rating history, shown as a sparkline
+	onShowHistory?: () => void;
 }
 
 /**
@@ -16,6 +22,10 @@ export const DisplayEloItem = ({
 	onChoose,
 	onRemove,
 	pluginInfo,
+	chooseHint,
+	removeHint,
+	history,
+	onShowHistory,
 }: DisplayEloItemProps) => {
 	const coverImageUrl = useCoverImage(item?.frontmatter ?? null, item?.file, pluginInfo);
 
@@ -26,7 +36,19 @@ export const DisplayEloItem = ({
 	};
 
 	return (
-		<div className="callout" data-callout="quote" style={{ flex: 1, position: 'relative' }}>
+		<div
+			className="callout elo-compare-card"
+			data-callout="quote"
+			style={{ flex: 1, position: 'relative' }}
+			tabIndex={0}
+			onKeyDown={(e) => {
+				// Enter on the focused card chooses it
+				if (e.key === 'Enter' && e.target === e.currentTarget) {
+					e.preventDefault();
+					onChoose();
+				}
+			}}
+		>
 			<div className="callout-title">
 				<div className="callout-title-inner">
 					{item?.file ? (
@@ -62,7 +84,18 @@ export const DisplayEloItem = ({
 						/>
 					</div>
 				)}
-				<div className="mod-muted">Rating: {item?.rating}</div>
+				<div className="mod-muted">
+					Rating: {item?.rating}{' '}
+					{history && (
+						<span
+							style={{ cursor: onShowHistory ? 'pointer' : undefined }}
+							title={onShowHistory ? 'Show rating history' : undefined}
+							onClick={onShowHistory}
+						>
+							<Sparkline points={history} />
+						</span>
+					)}
+				</div>
 				{item && onRemove && (
 					<div
 						style={{
@@ -80,6 +113,7 @@ export const DisplayEloItem = ({
 								right: 4,
 							}}
 							onClick={onRemove}
+							title={removeHint}
 						>
 							Remove
 						</button>
@@ -91,6 +125,7 @@ export const DisplayEloItem = ({
 					title={item ? undefined : 'This item is unfinished. Remove or fix it.'}
 				>
 					Choose {item?.name ?? item?.file?.path}
+					{chooseHint && <kbd style={{ marginLeft: 6 }}>{chooseHint}</kbd>}
 				</button>
 			</div>
 		</div>
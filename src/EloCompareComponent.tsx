@@ -1,24 +1,104 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import type { PluginInfo, SelectedFile, StoreType, HistoryType, EloCompareSettings } from './types';
-import { DEFAULT_RATING, DEFAULT_K_FACTOR } from './constants';
+import type {
+	PluginInfo,
+	SelectedFile,
+	StoreType,
+	HistoryType,
+	EloCompareSettings,
+	ComparisonTypeConfig,
+	Outcome,
+	ComparisonRecord,
+	ComparisonActions,
+	FileEloData,
+	SessionGoal,
+	SessionSummary,
+	Tournament,
+	TournamentFormat,
+} from './types';
+import {
+	DEFAULT_RATING,
+	DEFAULT_ITEM_COOLDOWN,
+	DEFAULT_PAIR_COOLDOWN,
+	DEFAULT_TOP_K,
+	DEFAULT_TOP_K_STABLE_WINDOW,
+	MAX_RECENT_ROUNDS,
+	MAX_UNDO,
+} from './constants';
 import { DisplayEloItem } from './DisplayEloItem';
 import { StatusBar } from './components/StatusBar';
-import { FileList } from './components/FileList';
+import { TopKStatus } from './components/TopKStatus';
+import { CriterionSelector } from './components/CriterionSelector';
+import { CriteriaCompare } from './components/CriteriaCompare';
+import { CombinedLeaderboard } from './components/CombinedLeaderboard';
+import { Leaderboard } from './components/Leaderboard';
+import { ItemDetail } from './components/ItemDetail';
+import { StatsPanel } from './components/StatsPanel';
+import { BradleyTerryList } from './components/BradleyTerryList';
 import { HistoryList } from './components/HistoryList';
 import { TypeSelector } from './components/TypeSelector';
-import { pickPair } from './helpers/pair-selection';
+import { InsertionBanner } from './components/InsertionBanner';
+import { TournamentPanel } from './components/TournamentPanel';
+import { SessionPanel } from './components/SessionPanel';
+import { SessionSummaryModal } from './SessionSummaryModal';
+import { getPairKey, pickOpponent, pickPair } from './helpers/pair-selection';
 import { reconstructHistoryFromEvents } from './helpers/history-reconstruction';
 import {
 	createEloEvent,
-	filterRecentEvents,
+	outcomeForWinner,
 	updateRatingsAfterComparison,
 	updateStoreRatings,
 } from './helpers/elo-updates';
+import { clearRatingFromFrontmatter, writeRatingToFrontmatter } from './helpers/frontmatter-sync';
+import { computeItemStats } from './helpers/item-stats';
+import { computeRatingHistories } from './helpers/rating-history';
+import { computeTopKStability } from './helpers/top-k';
+import {
+	ALL_CRITERIA,
+	getActiveCriteria,
+	getCriterionConfig,
+	getCriterionStoreName,
+} from './helpers/criteria';
+import {
+	advanceInsertion,
+	isInsertionDone,
+	isInsertionPair,
+	skipInsertionOpponent,
+	startInsertion,
+	summarizeInsertion,
+} from './helpers/insertion';
+import type { InsertionState, InsertionSummary } from './helpers/insertion';
+import {
+	createTournament,
+	getCurrentMatch,
+	isCurrentMatch,
+	recordMatchResult,
+} from './helpers/tournament';
+import { createKFactorSchedule } from './helpers/k-factor';
+import { createTypeConfig } from './helpers/type-config';
+import type { ActiveSession } from './helpers/session';
+import { createSession, getSessionProgress, summarizeSession } from './helpers/session';
+import type { ReplayTrace } from './helpers/event-log';
+import {
+	addSnapshotIfDue,
+	getDisplayStartIndex,
+	getStoreSnapshots,
+	traceReplay,
+} from './helpers/event-log';
+import { applyRatingsToItems, reapplyComparison, revertComparison } from './helpers/undo';
+import { getKeyHint } from './comparison-keys';
+import { getRatingEngine } from './engines';
 import { useStore } from './hooks/useStore';
 import { useSelectedFiles } from './hooks/useSelectedFiles';
+import { appendSession } from './storage';
 
-export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo }) => {
-	const { settings, vault, metadata, plugin } = pluginInfo;
+export const EloCompareComponent = ({
+	pluginInfo,
+	actionsRef,
+}: {
+	pluginInfo: PluginInfo;
+	actionsRef?: { current: ComparisonActions | null };
+}) => {
+	const { settings, vault, metadata, app, plugin } = pluginInfo;
 
 	// Get current comparison type from pluginInfo or settings
 	const typeConfigs = settings.typeConfigs || {};
@@ -31,37 +111,30 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 		'default';
 
 	const [comparisonType, setComparisonType] = useState(initialType);
-	const { store, updateStore } = useStore(vault, comparisonType);
+	// Criterion being compared: undefined for the type's own ranking, or ALL_CRITERIA
+	const [selectedCriterion, setSelectedCriterion] = useState<string | undefined>();
 
 	// Get the configuration for the current comparison type
-	const typeConfig = useMemo(() => {
+	const typeConfig = useMemo<ComparisonTypeConfig>(() => {
 		const typeConfigs = settings.typeConfigs || {};
 		const config = typeConfigs[comparisonType];
 		if (config) {
 			return config;
 		}
 		// Fallback to defaults
-		const displayName =
-			comparisonType.charAt(0).toUpperCase() + comparisonType.slice(1).replace(/-/g, ' ');
-		return {
-			name: comparisonType,
-			displayName: displayName,
-			defaultFolder: '',
-			frontmatterProperty: 'rating',
-			includeSubfolders: false,
-		};
+		return createTypeConfig(comparisonType);
 	}, [settings, comparisonType]);
 
-	// Create settings object with type-specific config
-	const effectiveSettings = useMemo(
-		() => ({
-			...settings,
-			defaultFolder: typeConfig.defaultFolder,
-			frontmatterProperty: typeConfig.frontmatterProperty,
-			includeSubfoldersByDefault: typeConfig.includeSubfolders || false,
-		}),
-		[settings, typeConfig]
+	const criteria = useMemo(() => getActiveCriteria(typeConfig), [typeConfig]);
+	const criterion = criteria.find((c) => c.id === selectedCriterion);
+	const askAllCriteria = selectedCriterion === ALL_CRITERIA && criteria.length > 0;
+	const storeName = getCriterionStoreName(comparisonType, criterion?.id);
+	// Ratings of a criterion are written to their own frontmatter property
+	const storeConfig = useMemo(
+		() => getCriterionConfig(typeConfig, criterion),
+		[typeConfig, criterion]
 	);
+	const { store, updateStore, revision } = useStore(vault, storeName);
 
 	const defaultPool = useMemo(
 		() => typeConfig.defaultFolder || 'default',
@@ -71,24 +144,55 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 		selectedFiles,
 		loading: loadingSelectedFiles,
 		error: selectedFilesError,
-	} = useSelectedFiles(vault, metadata, effectiveSettings, defaultPool);
+		reload: reloadSelectedFiles,
+	} = useSelectedFiles(vault, metadata, typeConfig, defaultPool);
 
 	const [items, setItems] = useState<SelectedFile[]>([]);
 	const [pair, setPair] = useState<[number, number]>([0, 1]);
 	const [history, setHistory] = useState<HistoryType[]>([]);
+	const [undoStack, setUndoStack] = useState<ComparisonRecord[]>([]);
+	const [redoStack, setRedoStack] = useState<ComparisonRecord[]>([]);
+	// Ids of the pairs shown in this session, most recent last
+	const [recentRounds, setRecentRounds] = useState<Array<[string, string]>>([]);
+	// Item whose rating history is shown
+	const [detailId, setDetailId] = useState<string | null>(null);
+	// Item being placed by binary insertion, and where the last placed item ended up
+	const [insertion, setInsertion] = useState<InsertionState | null>(null);
+	const [insertionSummary, setInsertionSummary] = useState<InsertionSummary | null>(null);
+	// Running session, the current time while it's time-boxed, and the latest state of its store
+	const [session, setSession] = useState<ActiveSession | null>(null);
+	const [now, setNow] = useState(() => Date.now());
+	const sessionStoreRef = useRef<StoreType | null>(null);
 	const hasInitializedRef = useRef(false);
-	const previousTypeRef = useRef(comparisonType);
+	const previousStoreRef = useRef(storeName);
 
-	// Handle type changes - reset state when type changes
+	// Handle type and criterion changes - reset state when the store changes
 	useEffect(() => {
-		if (previousTypeRef.current !== comparisonType) {
+		if (previousStoreRef.current !== storeName) {
 			setItems([]);
 			setPair([0, 1]);
 			setHistory([]);
+			setUndoStack([]);
+			setRedoStack([]);
+			setRecentRounds([]);
+			setDetailId(null);
+			setInsertion(null);
+			setInsertionSummary(null);
 			hasInitializedRef.current = false;
-			previousTypeRef.current = comparisonType;
+			previousStoreRef.current = storeName;
 		}
-	}, [comparisonType]);
+	}, [storeName]);
+
+	// Re-initialize from the reloaded files and store after an outside change to the store
+	useEffect(() => {
+		if (revision === 0) return;
+		setUndoStack([]);
+		setRedoStack([]);
+		setInsertion(null);
+		setInsertionSummary(null);
+		hasInitializedRef.current = false;
+		reloadSelectedFiles();
+	}, [revision]);
 
 	const handleSettingsUpdate = useCallback(
 		async (newSettings: EloCompareSettings) => {
@@ -103,13 +207,96 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 		[plugin, settings]
 	);
 
-	const kFactor = DEFAULT_K_FACTOR;
+	const kSchedule = useMemo(() => createKFactorSchedule(typeConfig), [typeConfig]);
+	const engine = useMemo(() => getRatingEngine(typeConfig.ratingEngine), [typeConfig]);
+	const pairOptions = useMemo(() => {
+		const lastRounds = (n: number) => (n > 0 ? recentRounds.slice(-n) : []);
+		const pairCooldown = typeConfig.pairCooldown ?? DEFAULT_PAIR_COOLDOWN;
+		const itemCooldown = typeConfig.itemCooldown ?? DEFAULT_ITEM_COOLDOWN;
+		return {
+			strategy: typeConfig.pairStrategy,
+			explorationRate: typeConfig.explorationRate,
+			topK: typeConfig.topK,
+			recentPairs: new Set(lastRounds(pairCooldown).map(([a, b]) => getPairKey(a, b))),
+			recentItems: new Set(
+				lastRounds(itemCooldown).reduce<string[]>((ids, r) => ids.concat(r), [])
+			),
+			skipped: store?.skipped,
+		};
+	}, [typeConfig, recentRounds, store?.skipped]);
 
 	/**
-	 * Handles a win/loss selection
+	 * Shows a pair and remembers it for the pair and item cooldowns
 	 */
-	const handleWin = useCallback(
-		(winnerIndex: number) => {
+	const showPair = useCallback((newPair: [number, number], list: SelectedFile[]) => {
+		setPair(newPair);
+		const a = list[newPair[0]];
+		const b = list[newPair[1]];
+		if (a && b && a !== b) {
+			setRecentRounds((rounds) =>
+				[...rounds, [a.id, b.id] as [string, string]].slice(-MAX_RECENT_ROUNDS)
+			);
+		}
+	}, []);
+
+	/**
+	 * Gets the pair to show next: the current tournament match if both items are loaded,
+	 * otherwise a pair picked by the type's strategy
+	 */
+	const nextPair = useCallback(
+		(list: SelectedFile[], tournament: Tournament | undefined): [number, number] => {
+			const match = tournament && getCurrentMatch(tournament);
+			if (match?.b) {
+				const a = list.findIndex((item) => item.id === match.a);
+				const b = list.findIndex((item) => item.id === match.b);
+				if (a !== -1 && b !== -1) return [a, b];
+			}
+			return pickPair(list, pairOptions);
+		},
+		[pairOptions]
+	);
+
+	/**
+	 * Shows the next opponent of the item being placed, or where it ended up once placed
+	 */
+	const continueInsertion = useCallback(
+		(state: InsertionState, list: SelectedFile[]) => {
+			const index = list.findIndex((item) => item.id === state.id);
+			const opponent = list.findIndex((item) => item.id === state.ranked[state.opponent]);
+			if (isInsertionDone(state) || index === -1 || opponent === -1) {
+				setInsertion(null);
+				setInsertionSummary(summarizeInsertion(state, list));
+				showPair(nextPair(list, store?.tournament), list);
+				return;
+			}
+			setInsertion(state);
+			showPair([index, opponent], list);
+		},
+		[store?.tournament, nextPair, showPair]
+	);
+
+	/**
+	 * Mirrors stored rating data into the notes' frontmatter if enabled for this type.
+	 * Notes without data (e.g. after undoing their first comparison) lose their properties.
+	 */
+	const writeFrontmatter = useCallback(
+		(entries: Array<[SelectedFile, FileEloData | undefined]>) => {
+			if (!storeConfig.writeToFrontmatter) return;
+			for (const [item, data] of entries) {
+				const write = data
+					? writeRatingToFrontmatter(app, item.file, data, storeConfig)
+					: clearRatingFromFrontmatter(app, item.file, storeConfig);
+				write.catch((e) => console.error('[EloCompare] Failed to write frontmatter', e));
+			}
+		},
+		[storeConfig, app]
+	);
+
+	/**
+	 * Records the outcome of the current pair (score for the left item)
+	 */
+	const handleOutcome = useCallback(
+		(outcome: Outcome) => {
 			if (!store) return; // Don't process if store is not loaded
 
 			const [aIndex, bIndex] = pair;
@@ -118,72 +305,325 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 
 			if (!itemA || !itemB) return;
 
+			// A tournament match between the two also advances the tournament;
+			// elimination matches need a winner
+			const tournamentMatch = isCurrentMatch(store.tournament, itemA.id, itemB.id);
+			if (tournamentMatch && store.tournament?.format === 'elimination' && outcome === 0.5) {
+				return;
+			}
+			const tournament =
+				tournamentMatch && store.tournament
+					? recordMatchResult(store.tournament, itemA.id, outcome)
+					: store.tournament;
+
 			// Update ratings and create history entry
-			const { updatedItems, newRatingA, newRatingB, historyEntry } =
+			const { updatedItems, newStateA, newStateB, historyEntry } =
 				updateRatingsAfterComparison(
 					items,
 					itemA,
 					itemB,
 					aIndex,
 					bIndex,
-					winnerIndex,
-					kFactor
+					outcome,
+					engine,
+					{
+						kFactorA: kSchedule(itemA.games, itemA.rating),
+						kFactorB: kSchedule(itemB.games, itemB.rating),
+					}
 				);
 
 			setItems(updatedItems);
 			setHistory((h) => [historyEntry, ...h]);
 
 			// Create event and update store
-			const newEvent = createEloEvent(itemA, itemB, winnerIndex, aIndex);
+			const newEvent = createEloEvent(itemA, itemB, outcome);
 			const allEvents = [...store.events, newEvent];
-			const recentEvents = filterRecentEvents(allEvents);
 
-			const newRatings = updateStoreRatings(store, itemA, itemB, newRatingA, newRatingB);
+			const newRatings = updateStoreRatings(store, itemA, itemB, newStateA, newStateB);
+
+			// A decided pair is no longer deprioritized for having been skipped
+			const skipped = { ...store.skipped };
+			delete skipped[getPairKey(itemA.id, itemB.id)];
 
 			const updatedStore: StoreType = {
-				version: 1,
-				events: recentEvents,
+				...store,
+				events: allEvents,
 				ratings: newRatings,
+				snapshots: addSnapshotIfDue(
+					getStoreSnapshots(store, engine, kSchedule),
+					allEvents.length,
+					newRatings
+				),
+				skipped,
+				tournament,
 			};
 
 			updateStore(updatedStore).catch((e) => console.error('Failed to update store', e));
+			writeFrontmatter([
+				[itemA, newRatings[itemA.id]],
+				[itemB, newRatings[itemB.id]],
+			]);
 
-			// Pick a new pair
-			const newPair = pickPair(updatedItems);
-			setPair(newPair);
+			// Remember the comparison so it can be undone
+			const record: ComparisonRecord = {
+				event: newEvent,
+				previous: [store.ratings[itemA.id], store.ratings[itemB.id]],
+				next: [newRatings[itemA.id], newRatings[itemB.id]],
+				historyEntry,
+				tournaments:
+					tournamentMatch && store.tournament && tournament
+						? [store.tournament, tournament]
+						: undefined,
+			};
+			setUndoStack((stack) => [...stack, record].slice(-MAX_UNDO));
+			setRedoStack([]);
+
+			// Pick a new pair, or the next opponent of the item being placed.
+			// Only a comparison against the current opponent narrows the search.
+			if (insertion && isInsertionPair(insertion, itemA.id, itemB.id)) {
+				const score = itemA.id === insertion.id ? outcome : ((1 - outcome) as Outcome);
+				continueInsertion(advanceInsertion(insertion, score), updatedItems);
+			} else if (insertion) {
+				continueInsertion(insertion, updatedItems);
+			} else {
+				const newPair = nextPair(updatedItems, tournament);
+				showPair(newPair, updatedItems);
+			}
 		},
-		[store, items, pair, kFactor, updateStore]
+		[
+			store,
+			items,
+			pair,
+			kSchedule,
+			engine,
+			nextPair,
+			insertion,
+			continueInsertion,
+			showPair,
+			updateStore,
+			writeFrontmatter,
+		]
+	);
+
+	/**
+	 * Handles a win/loss selection
+	 */
+	const handleWin = useCallback(
+		(winnerIndex: number) => handleOutcome(outcomeForWinner(winnerIndex, pair[0])),
+		[handleOutcome, pair]
 	);
 
 	/**
-	 * Picks a new random pair for comparison
+	 * Records the current pair as a draw
+	 */
+	const handleDraw = useCallback(() => handleOutcome(0.5), [handleOutcome]);
+
+	/**
+	 * Takes back the last comparison and puts its pair back on screen
+	 */
+	const handleUndo = useCallback(() => {
+		const record = undoStack[undoStack.length - 1];
+		if (!store || !record) return;
+
+		const { event, previous } = record;
+		const updatedItems = applyRatingsToItems(items, {
+			[event.a]: previous[0],
+			[event.b]: previous[1],
+		});
+		setItems(updatedItems);
+		setHistory((h) => h.filter((entry) => entry !== record.historyEntry));
+		setUndoStack((stack) => stack.slice(0, -1));
+		setRedoStack((stack) => [...stack, record]);
+		setInsertion(null);
+
+		updateStore(revertComparison(store, record)).catch((e) =>
+			console.error('Failed to update store', e)
+		);
+		const itemA = updatedItems.find((it) => it.id === event.a);
+		const itemB = updatedItems.find((it) => it.id === event.b);
+		if (itemA && itemB) {
+			writeFrontmatter([
+				[itemA, previous[0]],
+				[itemB, previous[1]],
+			]);
+			showPair([updatedItems.indexOf(itemA), updatedItems.indexOf(itemB)], updatedItems);
+		}
+	}, [store, items, undoStack, showPair, updateStore, writeFrontmatter]);
+
+	/**
+	 * Re-applies the last undone comparison
+	 */
+	const handleRedo = useCallback(() => {
+		const record = redoStack[redoStack.length - 1];
+		if (!store || !record) return;
+
+		const { event, next } = record;
+		const updatedItems = applyRatingsToItems(items, {
+			[event.a]: next[0],
+			[event.b]: next[1],
+		});
+		setItems(updatedItems);
+		setHistory((h) => [record.historyEntry, ...h]);
+		setRedoStack((stack) => stack.slice(0, -1));
+		setUndoStack((stack) => [...stack, record].slice(-MAX_UNDO));
+		setInsertion(null);
+
+		updateStore(reapplyComparison(store, record)).catch((e) =>
+			console.error('Failed to update store', e)
+		);
+		const itemA = updatedItems.find((it) => it.id === event.a);
+		const itemB = updatedItems.find((it) => it.id === event.b);
+		if (itemA && itemB) {
+			writeFrontmatter([
+				[itemA, next[0]],
+				[itemB, next[1]],
+			]);
+		}
+		showPair(nextPair(updatedItems, record.tournaments?.[1] ?? store.tournament), updatedItems);
+	}, [store, items, redoStack, nextPair, showPair, updateStore, writeFrontmatter]);
+
+	/**
+	 * Picks a new pair for comparison, remembering the skipped pair so it is deprioritized.
+	 * While placing an item, another opponent from the remaining range is shown instead.
 	 */
 	const handleSkip = useCallback(() => {
-		const newPair = pickPair(items);
-		setPair(newPair);
-	}, [items]);
+		const itemA = items[pair[0]];
+		const itemB = items[pair[1]];
+		if (store && itemA && itemB && itemA !== itemB) {
+			const key = getPairKey(itemA.id, itemB.id);
+			const previous = store.skipped?.[key];
+			updateStore({
+				...store,
+				skipped: {
+					...store.skipped,
+					[key]: { count: (previous?.count ?? 0) + 1, t: Date.now() },
+				},
+			}).catch((e) => console.error('Failed to update store', e));
+		}
+
+		if (insertion) {
+			const isOpponent = itemA && itemB && isInsertionPair(insertion, itemA.id, itemB.id);
+			continueInsertion(isOpponent ? skipInsertionOpponent(insertion) : insertion, items);
+			return;
+		}
+		const newPair = pickPair(items, pairOptions);
+		showPair(newPair, items);
+	}, [store, items, pair, pairOptions, insertion, continueInsertion, showPair, updateStore]);
 
 	/**
-	 * Removes an item from the comparison pool
+	 * Removes an item from the comparison pool for this session; its ratings are kept.
+	 * When it was on screen, the next pair is picked the usual way.
 	 */
 	const removeItem = useCallback(
 		(index: number) => {
 			const newItems = items.filter((_, i) => i !== index);
 			setItems(newItems);
-			if (newItems.length >= 2) {
-				setPair([0, 1]);
-			} else {
+			if (newItems.length < 2) {
 				setPair([0, 0]);
+			} else if (pair.includes(index)) {
+				if (insertion) {
+					// Another opponent stands in for a removed one
+					const isOpponent = items[index].id !== insertion.id;
+					continueInsertion(
+						isOpponent ? skipInsertionOpponent(insertion) : insertion,
+						newItems
+					);
+				} else {
+					showPair(nextPair(newItems, store?.tournament), newItems);
+				}
+			} else {
+				// Keep the current pair when another item is removed
+				setPair([newItems.indexOf(items[pair[0]]), newItems.indexOf(items[pair[1]])]);
 			}
 		},
-		[items]
+		[items, pair, insertion, store?.tournament, continueInsertion, nextPair, showPair]
+	);
+
+	/**
+	 * Shows an item right away against the closest-rated opponent
+	 */
+	const compareNow = useCallback(
+		(index: number) => {
+			if (items.length < 2) return;
+			// The chosen pair has nothing to do with an item being placed, so that stops
+			setInsertion(null);
+			showPair([index, pickOpponent(items, index, pairOptions)], items);
+		},
+		[items, pairOptions, showPair]
+	);
+
+	/**
+	 * Starts placing an item by binary search: each comparison against the middle of the
+	 * remaining ranking halves the range it can end up in
+	 */
+	const startInsert = useCallback(
+		(id: string) => {
+			if (items.length < 2) return;
+			setInsertionSummary(null);
+			continueInsertion(startInsertion(items, id), items);
+		},
+		[items, continueInsertion]
+	);
+
+	/**
+	 * Starts a tournament and shows its first match
+	 */
+	const startTournament = useCallback(
+		(name: string, format: TournamentFormat, participants: SelectedFile[], rounds: number) => {
+			if (!store || participants.length < 2) return;
+			const tournament = createTournament(name, format, participants, rounds);
+			updateStore({ ...store, tournament }).catch((e) =>
+				console.error('Failed to update store', e)
+			);
+			setUndoStack([]);
+			setRedoStack([]);
+			setInsertion(null);
+			showPair(nextPair(items, tournament), items);
+		},
+		[store, items, nextPair, showPair, updateStore]
+	);
+
+	/**
+	 * Awards the current tournament match to the given item without a comparison,
+	 * for when its opponent's note is gone
+	 */
+	const forfeitMatch = useCallback(
+		(winnerId: string) => {
+			if (!store?.tournament) return;
+			const tournament = recordMatchResult(store.tournament, winnerId, 1);
+			updateStore({ ...store, tournament }).catch((e) =>
+				console.error('Failed to update store', e)
+			);
+			setUndoStack([]);
+			setRedoStack([]);
+			showPair(nextPair(items, tournament), items);
+		},
+		[store, items, nextPair, showPair, updateStore]
 	);
 
+	/**
+	 * Abandons the running tournament or closes a finished one
+	 */
+	const endTournament = useCallback(() => {
+		if (!store) return;
+		updateStore({ ...store, tournament: undefined }).catch((e) =>
+			console.error('Failed to update store', e)
+		);
+		setUndoStack([]);
+		setRedoStack([]);
+		showPair(pickPair(items, pairOptions), items);
+	}, [store, items, pairOptions, showPair, updateStore]);
+
 	/**
 	 * Resets all ELO ratings to default
 	 */
 	const reset = useCallback(async () => {
-		if (!confirm('This will reset all ELO ratings to default. Continue?')) {
+		if (
+			!confirm(
+				'This will reset all ELO ratings to default and end any tournament. ' +
+					'Past session summaries are kept. Continue?'
+			)
+		) {
 			return;
 		}
 
@@ -192,6 +632,7 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 				version: 1,
 				events: [],
 				ratings: {},
+				sessions: store?.sessions,
 			};
 			await updateStore(resetStore);
 
@@ -207,12 +648,18 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 			}
 
 			setHistory([]);
+			setUndoStack([]);
+			setRedoStack([]);
+			setRecentRounds([]);
+			setInsertion(null);
+			setInsertionSummary(null);
+			setSession(null);
 			hasInitializedRef.current = false;
 		} catch (e) {
 			console.error('Failed to reset', e);
 			alert('Error resetting. Check console for details.');
 		}
-	}, [updateStore, selectedFiles]);
+	}, [store, updateStore, selectedFiles]);
 
 	/**
 	 * Initialize items from selected files and store when both are ready
@@ -227,30 +674,198 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 					rating: stored?.rating ?? DEFAULT_RATING,
 					games: stored?.games ?? 0,
 					last: stored?.last,
+					rd: stored?.rd,
+					volatility: stored?.volatility,
 				};
 			});
 			setItems(itemsWithRatings);
 
+			// Resume a running tournament at its current match
+			const match = store.tournament && getCurrentMatch(store.tournament);
+			if (match?.b) {
+				const a = itemsWithRatings.findIndex((item) => item.id === match.a);
+				const b = itemsWithRatings.findIndex((item) => item.id === match.b);
+				if (a !== -1 && b !== -1) setPair([a, b]);
+			}
+
 			// Load history from events
-			const historyEntries = reconstructHistoryFromEvents(selectedFiles, store, kFactor);
+			const historyEntries = reconstructHistoryFromEvents(
+				selectedFiles,
+				store,
+				kSchedule,
+				engine,
+				getDisplayStartIndex(store.events, typeConfig)
+			);
 			setHistory(historyEntries);
 
 			hasInitializedRef.current = true;
 		}
-	}, [selectedFiles, store?.events.length, kFactor, comparisonType]);
+	}, [selectedFiles, store?.events.length, kSchedule, engine, typeConfig, storeName]);
+
+	// Expose actions to commands registered by the plugin
+	useEffect(() => {
+		if (!actionsRef) return;
+		// Asking all criteria has its own controls
+		if (askAllCriteria) {
+			actionsRef.current = null;
+			return;
+		}
+		actionsRef.current = {
+			chooseLeft: () => handleWin(pair[0]),
+			chooseRight: () => handleWin(pair[1]),
+			draw: handleDraw,
+			skip: handleSkip,
+			undo: handleUndo,
+			redo: handleRedo,
+			removeLeft: () => removeItem(pair[0]),
+			removeRight: () => removeItem(pair[1]),
+		};
+		return () => {
+			actionsRef.current = null;
+		};
+	}, [
+		actionsRef,
+		askAllCriteria,
+		pair,
+		handleWin,
+		handleDraw,
+		handleSkip,
+		handleUndo,
+		handleRedo,
+		removeItem,
+	]);
+
+	const itemStats = useMemo(() => computeItemStats(store?.events ?? []), [store?.events]);
+	// The log is replayed once for the rating charts, the top-K status and the statistics,
+	// then only the comparisons added since
+	const traceRef = useRef<ReplayTrace | undefined>(undefined);
+	const replaySteps = useMemo(() => {
+		if (!store) return [];
+		traceRef.current = traceReplay(store, engine, kSchedule, traceRef.current);
+		return traceRef.current.steps;
+	}, [store?.events, store?.snapshots, engine, kSchedule]);
+
+	// A log written before snapshots existed has its baseline fitted once, and saved
+	useEffect(() => {
+		if (!store || store.snapshots || store.events.length === 0) return;
+		updateStore({ ...store, snapshots: getStoreSnapshots(store, engine, kSchedule) }).catch(
+			(e) => console.error('Failed to update store', e)
+		);
+	}, [store, engine, kSchedule, updateStore]);
+	const histories = useMemo(() => computeRatingHistories(replaySteps), [replaySteps]);
+	const topKStability = useMemo(
+		() =>
+			typeConfig.pairStrategy === 'top-k'
+				? computeTopKStability(
+						replaySteps,
+						items,
+						Math.max(1, Math.floor(typeConfig.topK ?? DEFAULT_TOP_K)),
+						Math.max(
+							1,
+							Math.floor(typeConfig.topKStableWindow ?? DEFAULT_TOP_K_STABLE_WINDOW)
+						)
+					)
+				: null,
+		[replaySteps, items, typeConfig]
+	);
+	const names = useMemo(() => {
+		const map: Record<string, string> = {};
+		items.forEach((item) => (map[item.id] = item.name));
+		return map;
+	}, [items]);
+
+	// Keep the latest state of the session's store; it's gone once another store is shown
+	useEffect(() => {
+		if (session && store && session.storeName === storeName) {
+			sessionStoreRef.current = store;
+		}
+	}, [session, store, storeName]);
+
+	// Tick while a time-boxed session runs
+	useEffect(() => {
+		if (session?.goal.kind !== 'time') return;
+		const timer = window.setInterval(() => setNow(Date.now()), 1000);
+		return () => window.clearInterval(timer);
+	}, [session]);
+
+	const sessionProgress = useMemo(
+		() =>
+			session && store && session.storeName === storeName
+				? getSessionProgress(session, store, now)
+				: null,
+		[session, store, storeName, now]
+	);
+
+	/**
+	 * Starts a session towards a goal from the current ratings
+	 */
+	const startSession = useCallback(
+		(goal: SessionGoal) => {
+			if (!store) return;
+			setNow(Date.now());
+			setSession(createSession(storeName, storeConfig, goal, store));
+		},
+		[store, storeName, storeConfig]
+	);
+
+	/**
+	 * Ends the running session, saves its summary to the session's store and shows it
+	 */
+	const endSession = useCallback(() => {
+		const sessionStore = sessionStoreRef.current;
+		setSession(null);
+		sessionStoreRef.current = null;
+		if (!session || !sessionStore) return;
+
+		const summary = summarizeSession(session, sessionStore, names, Date.now());
+		// A store that is no longer shown may have changed since, so only its sessions are written
+		const save =
+			session.storeName === storeName && store
+				? updateStore({ ...store, sessions: [...(store.sessions ?? []), summary] })
+				: plugin
+					? plugin.saveSession(session.storeName, summary)
+					: appendSession(vault, summary, session.storeName);
+		save.catch((e: unknown) => console.error('Failed to update store', e));
+		new SessionSummaryModal(app, session.config, summary).open();
+	}, [session, names, storeName, store, plugin, vault, app, updateStore]);
+
+	// End the session once its goal is reached
+	useEffect(() => {
+		if (sessionProgress?.reached) endSession();
+	}, [sessionProgress?.reached, endSession]);
+
+	// End the session when another type or criterion is shown
+	useEffect(() => {
+		if (session && (session.storeName !== storeName || askAllCriteria)) endSession();
+	}, [session, storeName, askAllCriteria, endSession]);
+
+	const showSessionSummary = useCallback(
+		(summary: SessionSummary) => new SessionSummaryModal(app, storeConfig, summary).open(),
+		[app, storeConfig]
+	);
+
+	const detailItem = items.find((item) => item.id === detailId);
 
 	const left = items[pair[0]];
 	const right = items[pair[1]];
+	const isEliminationMatch =
+		store?.tournament?.format === 'elimination' &&
+		!!left &&
+		!!right &&
+		isCurrentMatch(store.tournament, left.id, right.id);
 
-	return (
-		<div className="markdown-rendered">
+	const header = (
+		<>
 			<h3>Elo Compare</h3>
 
 			<TypeSelector
 				currentType={comparisonType}
 				settings={settings}
 				pluginInfo={pluginInfo}
-				onTypeChange={setComparisonType}
+				onTypeChange={(type) => {
+					setSelectedCriterion(undefined);
+					setComparisonType(type);
+				}}
 				onSettingsUpdate={handleSettingsUpdate}
 			/>
 
@@ -262,8 +877,50 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 				onReset={reset}
 			/>
 
-			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
-				<FileList items={items} pluginInfo={pluginInfo} />
+			<CriterionSelector
+				criteria={criteria}
+				current={criterion ? criterion.id : askAllCriteria ? ALL_CRITERIA : undefined}
+				onChange={setSelectedCriterion}
+			/>
+		</>
+	);
+	const combinedLeaderboard = !loadingSelectedFiles &&
+		!selectedFilesError &&
+		criteria.length > 0 &&
+		items.length > 0 && (
+			<CombinedLeaderboard
+				items={items}
+				typeName={comparisonType}
+				criteria={criteria}
+				pluginInfo={pluginInfo}
+			/>
+		);
+
+	if (askAllCriteria) {
+		return (
+			<div className="markdown-rendered">
+				{header}
+				{items.length >= 2 && (
+					<CriteriaCompare
+						items={items}
+						typeConfig={typeConfig}
+						criteria={criteria}
+						pluginInfo={pluginInfo}
+						engine={engine}
+						kSchedule={kSchedule}
+					/>
+				)}
+				{combinedLeaderboard}
+			</div>
+		);
+	}
+
+	return (
+		<div className="markdown-rendered">
+			{header}
+
+			{topKStability && items.length > 0 && (
+				<TopKStatus stability={topKStability} itemCount={items.length} />
 			)}
 
 			{items.length < 2 && (
@@ -272,33 +929,135 @@ export const EloCompareComponent = ({ pluginInfo }: { pluginInfo: PluginInfo })
 						<div className="callout-title-inner">Not enough items</div>
 					</div>
 					<div className="callout-content mod-muted">
-						Need at least two comparable items. Ensure the setting "frontmatter
-						property" is set and present as a non-empty string in your notes.
+						Need at least two comparable items. Ensure the folder and inclusion filter
+						of this comparison type match at least two notes.
 					</div>
 				</div>
 			)}
 
+			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
+				<SessionPanel
+					progress={sessionProgress}
+					sessions={store?.sessions ?? []}
+					onStart={startSession}
+					onEnd={endSession}
+					onShowSummary={showSessionSummary}
+				/>
+			)}
+
+			<InsertionBanner
+				insertion={insertion}
+				name={insertion ? names[insertion.id] : undefined}
+				summary={insertionSummary}
+				onStop={() => setInsertion(null)}
+				onDismiss={() => setInsertionSummary(null)}
+			/>
+
+			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
+				<TournamentPanel
+					tournament={store?.tournament}
+					items={items}
+					names={names}
+					defaultName={`${typeConfig.displayName} tournament`}
+					onStart={startTournament}
+					onForfeit={forfeitMatch}
+					onEnd={endTournament}
+				/>
+			)}
+
 			<div style={{ display: 'flex', gap: 12, marginBottom: 12 }}>
 				<DisplayEloItem
 					item={left}
 					onChoose={() => handleWin(pair[0])}
 					onRemove={() => removeItem(pair[0])}
 					pluginInfo={pluginInfo}
+					chooseHint={getKeyHint('choose-left')}
+					removeHint={getKeyHint('remove-left')}
+					history={left && histories[left.id]}
+					onShowHistory={() => left && setDetailId(left.id)}
 				/>
 				<DisplayEloItem
 					item={right}
 					onChoose={() => handleWin(pair[1])}
 					onRemove={() => removeItem(pair[1])}
 					pluginInfo={pluginInfo}
+					chooseHint={getKeyHint('choose-right')}
+					removeHint={getKeyHint('remove-right')}
+					history={right && histories[right.id]}
+					onShowHistory={() => right && setDetailId(right.id)}
 				/>
 			</div>
 
 			<div style={{ marginBottom: 12, display: 'flex', gap: 8 }}>
+				<button
+					onClick={handleDraw}
+					disabled={items.length < 2 || isEliminationMatch}
+					title={isEliminationMatch ? 'Elimination matches need a winner' : undefined}
+				>
+					About the same <kbd>{getKeyHint('draw')}</kbd>
+				</button>
 				<button className="mod-contrast" onClick={handleSkip}>
-					Skip
+					Skip <kbd>{getKeyHint('skip')}</kbd>
+				</button>
+				<button
+					onClick={handleUndo}
+					disabled={undoStack.length === 0}
+					title={getKeyHint('undo-comparison')}
+				>
+					Undo
+				</button>
+				<button
+					onClick={handleRedo}
+					disabled={redoStack.length === 0}
+					title={getKeyHint('redo-comparison')}
+				>
+					Redo
 				</button>
 			</div>
 
+			{detailItem && (
+				<ItemDetail
+					item={detailItem}
+					points={histories[detailItem.id] ?? []}
+					stats={itemStats[detailItem.id]}
+					names={names}
+					pluginInfo={pluginInfo}
+					onClose={() => setDetailId(null)}
+				/>
+			)}
+
+			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
+				<Leaderboard
+					items={items}
+					stats={itemStats}
+					histories={histories}
+					typeConfig={typeConfig}
+					pluginInfo={pluginInfo}
+					onCompare={compareNow}
+					onInsert={startInsert}
+					onRemove={removeItem}
+					onShowHistory={setDetailId}
+				/>
+			)}
+
+			{combinedLeaderboard}
+
+			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
+				<BradleyTerryList
+					items={items}
+					events={store?.events ?? []}
+					pluginInfo={pluginInfo}
+				/>
+			)}
+
+			{!loadingSelectedFiles && !selectedFilesError && items.length > 0 && (
+				<StatsPanel
+					items={items}
+					steps={replaySteps}
+					pluginInfo={pluginInfo}
+				/>
+			)}
+
 			<div>
 				<h4>History</h4>
 				<HistoryList history={history} pluginInfo={pluginInfo} />
@@ -1,18 +1,34 @@
 import { StrictMode } from 'react';
-import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ItemView, Scope, WorkspaceLeaf } from 'obsidian';
 import { Root, createRoot } from 'react-dom/client';
 import { EloCompareComponent } from './EloCompareComponent';
-import type { PluginInfo } from './types';
+import type { PluginInfo, ComparisonActions } from './types';
+import { COMPARISON_KEYS } from './comparison-keys';
 
 export const VIEW_TYPE_ELO = 'elo-compare-view';
 
 export class EloCompareView extends ItemView {
 	root: Root | null = null;
 	pluginInfo: PluginInfo;
+	// Set by the mounted component so plugin commands can drive the comparison
+	actions: { current: ComparisonActions | null } = { current: null };
 
 	constructor(leaf: WorkspaceLeaf, pluginInfo: PluginInfo) {
 		super(leaf);
 		this.pluginInfo = pluginInfo;
+
+		// Default hotkeys while this view is focused
+		this.scope = new Scope(this.app.scope);
+		for (const binding of COMPARISON_KEYS) {
+			this.scope.register(binding.modifiers, binding.key, (evt) => {
+				const target = evt.target as HTMLElement | null;
+				if (target?.closest('input, textarea, select')) return;
+				const actions = this.actions.current;
+				if (!actions) return;
+				binding.run(actions);
+				return false;
+			});
+		}
 	}
 
 	getViewType() {
@@ -28,7 +44,7 @@ export class EloCompareView extends ItemView {
 		this.root = createRoot(this.contentEl);
 		this.root.render(
 			<StrictMode>
-				<EloCompareComponent pluginInfo={this.pluginInfo} />
+				<EloCompareComponent pluginInfo={this.pluginInfo} actionsRef={this.actions} />
 			</StrictMode>
 		);
 	}
@@ -0,0 +1,140 @@
+import { App, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import type { ComparisonTypeConfig } from './types';
+import { readStore } from './storage';
+import { buildLeaderboard } from './helpers/leaderboard';
+import { EXPORT_FORMATS, exportEvents, exportLeaderboard } from './helpers/export';
+import type { ExportData, ExportFormat } from './helpers/export';
+
+const DEFAULT_EXPORT_FOLDER = 'Elo exports';
+
+/**
+ * Lets the user export the leaderboard or event log of a type to a vault file or the clipboard
+ */
+export class ExportModal extends Modal {
+	private config: ComparisonTypeConfig;
+	private data: ExportData = 'leaderboard';
+	private format: ExportFormat = 'csv';
+	private destination: 'file' | 'clipboard' = 'file';
+	private path = '';
+
+	constructor(app: App, config: ComparisonTypeConfig) {
+		super(app);
+		this.config = config;
+		this.path = this.getDefaultPath();
+	}
+
+	/**
+	 * Builds a file path from the type, data and format,
+	 * e.g. `Elo exports/books-events-2024-05-01.csv`
+	 */
+	private getDefaultPath(): string {
+		const date = new Date().toISOString().slice(0, 10);
+		const extension = EXPORT_FORMATS[this.format].extension;
+		return `${DEFAULT_EXPORT_FOLDER}/${this.config.name}-${this.data}-${date}.${extension}`;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: `Export: ${this.config.displayName}` });
+
+		// Changing data or format updates the path unless the user edited it
+		const updatePath = (change: () => void) => {
+			const isDefault = this.path === this.getDefaultPath();
+			change();
+			if (isDefault) this.path = this.getDefaultPath();
+			this.render();
+		};
+
+		new Setting(contentEl).setName('Data').addDropdown((dropdown) =>
+			dropdown
+				.addOptions({ leaderboard: 'Leaderboard', events: 'Event log' })
+				.setValue(this.data)
+				.onChange((value) => updatePath(() => (this.data = value as ExportData)))
+		);
+
+		new Setting(contentEl).setName('Format').addDropdown((dropdown) => {
+			for (const [id, format] of Object.entries(EXPORT_FORMATS)) {
+				dropdown.addOption(id, format.name);
+			}
+			dropdown
+				.setValue(this.format)
+				.onChange((value) => updatePath(() => (this.format = value as ExportFormat)));
+		});
+
+		new Setting(contentEl).setName('Destination').addDropdown((dropdown) =>
+			dropdown
+				.addOptions({ file: 'Vault file', clipboard: 'Clipboard' })
+				.setValue(this.destination)
+				.onChange((value) => {
+					this.destination = value === 'clipboard' ? 'clipboard' : 'file';
+					this.render();
+				})
+		);
+
+		if (this.destination === 'file') {
+			new Setting(contentEl)
+				.setName('File')
+				.setDesc('An existing file is overwritten')
+				.addText((text) =>
+					text.setValue(this.path).onChange((value) => (this.path = value.trim()))
+				);
+		}
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText('Export')
+				.setCta()
+				.onClick(async () => {
+					btn.setDisabled(true);
+					try {
+						await this.export();
+						this.close();
+					} catch (e) {
+						console.error('[EloCompare] Export failed', e);
+						alert('Error exporting. Check console for details.');
+						btn.setDisabled(false);
+					}
+				})
+		);
+	}
+
+	private async export(): Promise<void> {
+		const store = await readStore(this.app.vault, this.config.name);
+		const content =
+			this.data === 'leaderboard'
+				? exportLeaderboard(
+						buildLeaderboard(this.app.vault, store, this.config),
+						this.config,
+						this.format
+					)
+				: exportEvents(this.app.vault, store.events, this.config, this.format);
+
+		if (this.destination === 'clipboard') {
+			await navigator.clipboard.writeText(content);
+			new Notice(`Copied the ${this.config.displayName} export to the clipboard`);
+			return;
+		}
+
+		const path = normalizePath(this.path || this.getDefaultPath());
+		const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(path, content);
+		}
+		new Notice(`Exported to ${path}`);
+	}
+}
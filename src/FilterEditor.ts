@@ -0,0 +1,171 @@
+import { Setting } from 'obsidian';
+import type { FilterCondition, FilterGroup } from './types';
+
+type ConditionType = FilterCondition['type'];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+	'property-exists': 'Property exists',
+	'property-equals': 'Property equals',
+	'property-in': 'Property is one of',
+	tag: 'Has tag',
+	'name-regex': 'File name matches',
+	group: 'Group',
+};
+
+/**
+ * Creates an empty condition of the given type, keeping the property name if possible
+ */
+function createCondition(type: ConditionType, previous?: FilterCondition): FilterCondition {
+	const property = previous && 'property' in previous ? previous.property : '';
+	switch (type) {
+		case 'property-exists':
+			return { type, property };
+		case 'property-equals':
+			return { type, property, value: '' };
+		case 'property-in':
+			return { type, property, values: [] };
+		case 'tag':
+			return { type, tag: '' };
+		case 'name-regex':
+			return { type, pattern: '' };
+		case 'group':
+			return { type, mode: 'and', conditions: [] };
+	}
+}
+
+/**
+ * Renders an editable filter group into the container.
+ * `onChange` is called after every edit; `onStructureChange` after conditions
+ * are added, removed or change their type, so the caller can re-render.
+ */
+export function renderFilterGroup(
+	containerEl: HTMLElement,
+	group: FilterGroup,
+	onChange: () => void,
+	onStructureChange: () => void,
+	onRemove?: () => void
+): void {
+	const groupEl = containerEl.createDiv();
+	groupEl.style.borderLeft = '2px solid var(--background-modifier-border)';
+	groupEl.style.paddingLeft = '12px';
+	groupEl.style.marginBottom = '8px';
+
+	const header = new Setting(groupEl)
+		.setName(onRemove ? 'Group' : 'Inclusion filter')
+		.setDesc('Notes must match all (AND) or any (OR) of these conditions')
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOptions({ and: 'All (AND)', or: 'Any (OR)' })
+				.setValue(group.mode)
+				.onChange((value) => {
+					group.mode = value === 'or' ? 'or' : 'and';
+					onChange();
+				})
+		)
+		.addButton((btn) =>
+			btn.setButtonText('+ Condition').onClick(() => {
+				group.conditions.push(createCondition('property-exists'));
+				onStructureChange();
+			})
+		)
+		.addButton((btn) =>
+			btn.setButtonText('+ Group').onClick(() => {
+				group.conditions.push(createCondition('group'));
+				onStructureChange();
+			})
+		);
+
+	if (onRemove) {
+		header.addExtraButton((btn) =>
+			btn.setIcon('trash').setTooltip('Remove group').onClick(onRemove)
+		);
+	}
+
+	group.conditions.forEach((condition, index) => {
+		const remove = () => {
+			group.conditions.splice(index, 1);
+			onStructureChange();
+		};
+
+		if (condition.type === 'group') {
+			renderFilterGroup(groupEl, condition, onChange, onStructureChange, remove);
+			return;
+		}
+
+		const row = new Setting(groupEl).addDropdown((dropdown) =>
+			dropdown
+				.addOptions(CONDITION_LABELS)
+				.setValue(condition.type)
+				.onChange((value) => {
+					group.conditions[index] = createCondition(value as ConditionType, condition);
+					onStructureChange();
+				})
+		);
+
+		if ('property' in condition) {
+			row.addText((text) =>
+				text
+					.setPlaceholder('property')
+					.setValue(condition.property)
+					.onChange((value) => {
+						condition.property = value.trim();
+						onChange();
+					})
+			);
+		}
+
+		switch (condition.type) {
+			case 'property-equals':
+				row.addText((text) =>
+					text
+						.setPlaceholder('value')
+						.setValue(condition.value)
+						.onChange((value) => {
+							condition.value = value;
+							onChange();
+						})
+				);
+				break;
+			case 'property-in':
+				row.addText((text) =>
+					text
+						.setPlaceholder('value1, value2')
+						.setValue(condition.values.join(', '))
+						.onChange((value) => {
+							condition.values = value
+								.split(',')
+								.map((v) => v.trim())
+								.filter((v) => v !== '');
+							onChange();
+						})
+				);
+				break;
+			case 'tag':
+				row.addText((text) =>
+					text
+						.setPlaceholder('#tag')
+						.setValue(condition.tag)
+						.onChange((value) => {
+							condition.tag = value;
+							onChange();
+						})
+				);
+				break;
+			case 'name-regex':
+				row.addText((text) =>
+					text
+						.setPlaceholder('regular expression')
+						.setValue(condition.pattern)
+						.onChange((value) => {
+							condition.pattern = value;
+							onChange();
+						})
+				);
+				break;
+		}
+
+		row.addExtraButton((btn) =>
+			btn.setIcon('trash').setTooltip('Remove condition').onClick(remove)
+		);
+	});
+}
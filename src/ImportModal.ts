@@ -0,0 +1,216 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { ComparisonTypeConfig, StoreType } from './types';
+import { isFileInPool } from './helpers/file-filtering';
+import {
+	applyRatingsImport,
+	applyResultsImport,
+	createNoteMatcher,
+	detectImportKind,
+	parseImportFile,
+	previewImport,
+} from './helpers/import';
+import type { ImportPreview, ImportRow, MatchMode } from './helpers/import';
+
+// Unmatched rows listed in the preview; the rest are only counted
+const MAX_UNMATCHED_SHOWN = 50;
+
+type ImportHandler = (
+	apply: (store: StoreType) => StoreType,
+	preview: ImportPreview
+) => Promise<void>;
+
+/**
+ * Imports ratings or pairwise results from a CSV or JSON file into a comparison type.
+ * Rows are matched to the notes of the type and previewed before anything is written.
+ */
+export class ImportModal extends Modal {
+	private config: ComparisonTypeConfig;
+	private onImport: ImportHandler;
+	private fileName = '';
+	private rows: ImportRow[] = [];
+	private parseError = '';
+	private matchMode: MatchMode = 'path';
+	private frontmatterKey = '';
+	private overwrite = false;
+
+	constructor(app: App, config: ComparisonTypeConfig, onImport: ImportHandler) {
+		super(app);
+		this.config = config;
+		this.onImport = onImport;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: `Import: ${this.config.displayName}` });
+		contentEl.createEl('p', {
+			text:
+				'CSV (with a header row) or JSON with either name/path and rating columns, ' +
+				'or winner, loser and an optional date per comparison.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(contentEl)
+			.setName('File')
+			.setDesc(this.fileName || 'No file chosen')
+			.addButton((btn) =>
+				btn.setButtonText('Choose file').onClick(() => {
+					const input = document.createElement('input');
+					input.type = 'file';
+					input.accept = '.csv,.json';
+					input.onchange = async () => {
+						const file = input.files?.[0];
+						if (!file) return;
+						this.fileName = file.name;
+						try {
+							this.rows = parseImportFile(await file.text(), file.name);
+							this.parseError = '';
+						} catch (e) {
+							console.error('[EloCompare] Failed to parse import file', e);
+							this.rows = [];
+							this.parseError = `Could not read the file: ${e}`;
+						}
+						this.render();
+					};
+					input.click();
+				})
+			);
+
+		new Setting(contentEl)
+			.setName('Match rows by')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						path: 'Note path',
+						basename: 'Note name',
+						frontmatter: 'Frontmatter property',
+					})
+					.setValue(this.matchMode)
+					.onChange((value) => {
+						this.matchMode = value as MatchMode;
+						this.render();
+					})
+			);
+
+		if (this.matchMode === 'frontmatter') {
+			new Setting(contentEl).setName('Property').addText((text) =>
+				text
+					.setPlaceholder('isbn')
+					.setValue(this.frontmatterKey)
+					.onChange((value) => (this.frontmatterKey = value.trim()))
+			);
+			new Setting(contentEl).addButton((btn) =>
+				btn.setButtonText('Match again').onClick(() => this.render())
+			);
+		}
+
+		if (this.parseError) {
+			contentEl.createEl('p', { text: this.parseError, cls: 'mod-warning' });
+			return;
+		}
+		if (this.rows.length === 0) return;
+
+		const kind = detectImportKind(this.rows);
+		if (!kind) {
+			contentEl.createEl('p', {
+				text: 'Could not find rating or winner/loser columns in the file.',
+				cls: 'mod-warning',
+			});
+			return;
+		}
+
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => isFileInPool(file, this.config, this.app.metadataCache));
+		const match = createNoteMatcher(
+			files,
+			this.app.metadataCache,
+			this.matchMode,
+			this.frontmatterKey
+		);
+		const preview = previewImport(this.rows, kind, match);
+		this.renderPreview(preview);
+	}
+
+	private renderPreview(preview: ImportPreview): void {
+		const { contentEl } = this;
+		const matched = preview.kind === 'ratings' ? preview.ratings.length : preview.results.length;
+		contentEl.createEl('h3', {
+			text: preview.kind === 'ratings' ? 'Ratings' : 'Comparison results',
+		});
+		contentEl.createEl('p', {
+			text: `${matched} of ${this.rows.length} row(s) match a note of this type.`,
+		});
+
+		if (preview.unmatched.length > 0) {
+			contentEl.createEl('p', { text: 'Rows that will be skipped:', cls: 'mod-warning' });
+			const table = contentEl.createEl('table');
+			const header = table.createEl('tr');
+			['Row', 'Value', 'Reason'].forEach((text) => header.createEl('th', { text }));
+			for (const row of preview.unmatched.slice(0, MAX_UNMATCHED_SHOWN)) {
+				const tr = table.createEl('tr');
+				tr.createEl('td', { text: String(row.line) });
+				tr.createEl('td', { text: row.value || '—' });
+				tr.createEl('td', { text: row.reason });
+			}
+			if (preview.unmatched.length > MAX_UNMATCHED_SHOWN) {
+				contentEl.createEl('p', {
+					text: `…and ${preview.unmatched.length - MAX_UNMATCHED_SHOWN} more`,
+					cls: 'mod-muted',
+				});
+			}
+		}
+
+		let apply: (store: StoreType) => StoreType;
+		if (preview.kind === 'ratings') {
+			contentEl.createEl('p', {
+				text:
+					'Ratings are seeded as the current ratings of the notes. Comparisons ' +
+					'continue from them, also when ratings are rebuilt from the history.',
+				cls: 'setting-item-description',
+			});
+			new Setting(contentEl)
+				.setName('Overwrite existing ratings')
+				.setDesc('Otherwise only notes without a rating are seeded')
+				.addToggle((toggle) =>
+					toggle.setValue(this.overwrite).onChange((value) => (this.overwrite = value))
+				);
+			const pool = this.config.defaultFolder || 'default';
+			apply = (store) => applyRatingsImport(store, preview, pool, this.overwrite);
+		} else {
+			contentEl.createEl('p', {
+				text:
+					'Results are added to the comparison history in date order and all ratings ' +
+					'are recomputed from the history.',
+				cls: 'setting-item-description',
+			});
+			apply = (store) => applyResultsImport(store, preview);
+		}
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText('Import')
+				.setCta()
+				.setDisabled(matched === 0)
+				.onClick(async () => {
+					btn.setDisabled(true);
+					try {
+						await this.onImport(apply, preview);
+						this.close();
+					} catch (e) {
+						console.error('[EloCompare] Import failed', e);
+						alert('Error importing. Check console for details.');
+						btn.setDisabled(false);
+					}
+				})
+		);
+	}
+}
@@ -0,0 +1,313 @@
+import { App, Keymap, MarkdownRenderChild } from 'obsidian';
+import type { ComparisonTypeConfig, EloCompareSettings, FilterCondition } from './types';
+import { readStore, storeEvents } from './storage';
+import { matchesFilter } from './helpers/file-filtering';
+import { buildLeaderboard, formatLastCompared, LEADERBOARD_COLUMNS } from './helpers/leaderboard';
+import type { LeaderboardColumn, LeaderboardEntry } from './helpers/leaderboard';
+
+export const LEADERBOARD_BLOCK = 'elo-leaderboard';
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_COLUMNS: LeaderboardColumn[] = ['rank', 'name', 'rating', 'games'];
+
+interface LeaderboardBlockOptions {
+	type?: string;
+	limit: number; // 0 shows all items
+	sort: LeaderboardColumn;
+	descending: boolean;
+	columns: LeaderboardColumn[];
+	format: 'table' | 'list';
+	filters: FilterCondition[]; // all must match
+}
+
+/**
+ * Checks whether a string is the key of a leaderboard column
+ */
+function isColumn(value: string): value is LeaderboardColumn {
+	return Object.prototype.hasOwnProperty.call(LEADERBOARD_COLUMNS, value);
+}
+
+/**
+ * Parses a filter line: `#tag`, `/regex/` on the note name, `property=value` or `property`
+ */
+function parseFilter(value: string): FilterCondition {
+	if (value.startsWith('#')) {
+		return { type: 'tag', tag: value };
+	}
+	if (value.length > 1 && value.startsWith('/') && value.endsWith('/')) {
+		return { type: 'name-regex', pattern: value.slice(1, -1) };
+	}
+	const equals = value.indexOf('=');
+	if (equals > 0) {
+		return {
+			type: 'property-equals',
+			property: value.slice(0, equals).trim(),
+			value: value.slice(equals + 1).trim(),
+		};
+	}
+	return { type: 'property-exists', property: value };
+}
+
+/**
+ * Parses the `key: value` lines of a code block into options, collecting errors
+ */
+export function parseLeaderboardOptions(source: string): {
+	options: LeaderboardBlockOptions;
+	errors: string[];
+} {
+	const options: LeaderboardBlockOptions = {
+		limit: DEFAULT_LIMIT,
+		sort: 'rating',
+		descending: true,
+		columns: DEFAULT_COLUMNS,
+		format: 'table',
+		filters: [],
+	};
+	const errors: string[] = [];
+
+	for (const line of source.split('\n')) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		const colon = trimmed.indexOf(':');
+		if (colon < 0) {
+			errors.push(`Expected "option: value" but got "${trimmed}"`);
+			continue;
+		}
+		const key = trimmed.slice(0, colon).trim().toLowerCase();
+		const value = trimmed.slice(colon + 1).trim();
+
+		switch (key) {
+			case 'type':
+				options.type = value;
+				break;
+			case 'limit': {
+				const limit = parseInt(value, 10);
+				if (Number.isFinite(limit) && limit >= 0) {
+					options.limit = limit;
+				} else {
+					errors.push(`Invalid limit "${value}"`);
+				}
+				break;
+			}
+			case 'sort': {
+				const [column, direction] = value.toLowerCase().split(/\s+/);
+				if (!isColumn(column)) {
+					errors.push(`Unknown sort column "${column}"`);
+					break;
+				}
+				options.sort = column;
+				// Names and ranks read best ascending, everything else highest first
+				options.descending = direction
+					? direction === 'desc'
+					: column !== 'name' && column !== 'rank';
+				break;
+			}
+			case 'columns': {
+				const columns = value
+					.split(',')
+					.map((c) => c.trim().toLowerCase())
+					.filter((c) => c !== '');
+				const unknown = columns.filter((c) => !isColumn(c));
+				if (unknown.length > 0) {
+					errors.push(`Unknown column(s): ${unknown.join(', ')}`);
+				}
+				const known = columns.filter(isColumn);
+				if (known.length > 0) options.columns = known;
+				break;
+			}
+			case 'format':
+				if (value === 'table' || value === 'list') {
+					options.format = value;
+				} else {
+					errors.push(`Format must be "table" or "list", not "${value}"`);
+				}
+				break;
+			case 'filter':
+				if (value) options.filters.push(parseFilter(value));
+				break;
+			default:
+				errors.push(`Unknown option "${key}"`);
+		}
+	}
+
+	return { options, errors };
+}
+
+/**
+ * Finds the comparison type by name or display name, falling back to the default type
+ */
+function resolveType(
+	settings: EloCompareSettings,
+	type: string | undefined
+): ComparisonTypeConfig | undefined {
+	const configs = Object.values(settings.typeConfigs || {});
+	if (!type) {
+		if (configs.length === 1) return configs[0];
+		return settings.defaultComparisonType
+			? settings.typeConfigs[settings.defaultComparisonType]
+			: undefined;
+	}
+	const lower = type.toLowerCase();
+	return (
+		settings.typeConfigs[type] ??
+		configs.find((config) => config.displayName.toLowerCase() === lower)
+	);
+}
+
+/**
+ * Renders an `elo-leaderboard` code block and re-renders it whenever the type's store is written
+ */
+export class LeaderboardBlock extends MarkdownRenderChild {
+	private app: App;
+	private settings: EloCompareSettings;
+	private source: string;
+	private sourcePath: string;
+	// Incremented per render so a slow, outdated render doesn't overwrite a newer one
+	private renderId = 0;
+
+	constructor(
+		containerEl: HTMLElement,
+		app: App,
+		settings: EloCompareSettings,
+		source: string,
+		sourcePath: string
+	) {
+		super(containerEl);
+		this.app = app;
+		this.settings = settings;
+		this.source = source;
+		this.sourcePath = sourcePath;
+	}
+
+	onload(): void {
+		const onStoreChange = (changedType: string) => {
+			const { options } = parseLeaderboardOptions(this.source);
+			if (resolveType(this.settings, options.type)?.name === changedType) {
+				this.render();
+			}
+		};
+		this.registerEvent(storeEvents.on('written', onStoreChange));
+		this.registerEvent(storeEvents.on('changed', onStoreChange));
+		this.render();
+	}
+
+	private async render(): Promise<void> {
+		const renderId = ++this.renderId;
+		const { options, errors } = parseLeaderboardOptions(this.source);
+		const config = resolveType(this.settings, options.type);
+		if (!config) {
+			errors.push(
+				options.type
+					? `Unknown comparison type "${options.type}"`
+					: 'Several comparison types exist: set one with "type: <name>"'
+			);
+		}
+
+		let entries: LeaderboardEntry[] = [];
+		if (config) {
+			try {
+				const store = await readStore(this.app.vault, config.name);
+				entries = buildLeaderboard(this.app.vault, store, config);
+			} catch (e) {
+				console.error('[EloCompare] Failed to load leaderboard', e);
+				errors.push('Failed to load the ratings. Check the console for details.');
+			}
+		}
+		if (renderId !== this.renderId) return;
+
+		const filtered = entries.filter((entry) =>
+			options.filters.every(
+				(condition) =>
+					entry.file !== null &&
+					matchesFilter(entry.file, condition, this.app.metadataCache)
+			)
+		);
+		const sort = LEADERBOARD_COLUMNS[options.sort].value;
+		const direction = options.descending ? -1 : 1;
+		filtered.sort((a, b) => {
+			const x = sort(a);
+			const y = sort(b);
+			if (typeof x === 'string' && typeof y === 'string') {
+				return direction * x.localeCompare(y);
+			}
+			return direction * (Number(x) - Number(y));
+		});
+		const shown = options.limit > 0 ? filtered.slice(0, options.limit) : filtered;
+
+		const el = this.containerEl;
+		el.empty();
+		for (const error of errors) {
+			el.createEl('p', { text: `elo-leaderboard: ${error}`, cls: 'mod-warning' });
+		}
+		if (!config) return;
+
+		if (shown.length === 0) {
+			el.createEl('p', { text: 'No rated items yet.', cls: 'mod-muted' });
+		} else if (options.format === 'list') {
+			const list = el.createEl('ol');
+			for (const entry of shown) {
+				const item = list.createEl('li');
+				this.renderName(item, entry);
+				// The list numbering already shows the position
+				const details = options.columns
+					.filter((c) => c !== 'name' && c !== 'rank')
+					.map((c) => `${LEADERBOARD_COLUMNS[c].label}: ${this.formatValue(entry, c)}`);
+				if (details.length > 0) {
+					item.appendText(` — ${details.join(', ')}`);
+				}
+			}
+		} else {
+			const table = el.createEl('table');
+			const header = table.createEl('thead').createEl('tr');
+			for (const column of options.columns) {
+				header.createEl('th', { text: LEADERBOARD_COLUMNS[column].label });
+			}
+			const body = table.createEl('tbody');
+			for (const entry of shown) {
+				const row = body.createEl('tr');
+				for (const column of options.columns) {
+					const cell = row.createEl('td');
+					if (column === 'name') {
+						this.renderName(cell, entry);
+					} else {
+						cell.setText(this.formatValue(entry, column));
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Renders the name of an entry as an internal link to its note
+	 */
+	private renderName(parent: HTMLElement, entry: LeaderboardEntry): void {
+		if (!entry.file) {
+			parent.appendText(entry.name);
+			return;
+		}
+		const path = entry.file.path;
+		const link = parent.createEl('a', {
+			text: entry.name,
+			cls: 'internal-link',
+			href: path,
+			attr: { 'data-href': path },
+		});
+		link.addEventListener('click', (e) => {
+			e.preventDefault();
+			this.app.workspace.openLinkText(path, this.sourcePath, Keymap.isModEvent(e));
+		});
+	}
+
+	/**
+	 * Formats a column value for display
+	 */
+	private formatValue(entry: LeaderboardEntry, column: LeaderboardColumn): string {
+		if (column === 'last') {
+			return formatLastCompared(entry.last);
+		}
+		if (column === 'provisional') {
+			return entry.provisional ? 'yes' : '';
+		}
+		return String(LEADERBOARD_COLUMNS[column].value(entry));
+	}
+}
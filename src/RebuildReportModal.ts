@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { ComparisonTypeConfig } from './types';
+import type { RebuildReport } from './helpers/rebuild';
+
+/**
+ * Shows the differences between stored and recomputed ratings and lets the user accept them
+ */
+export class RebuildReportModal extends Modal {
+	private config: ComparisonTypeConfig;
+	private report: RebuildReport;
+	private onAccept: () => Promise<void>;
+
+	constructor(
+		app: App,
+		config: ComparisonTypeConfig,
+		report: RebuildReport,
+		onAccept: () => Promise<void>
+	) {
+		super(app);
+		this.config = config;
+		this.report = report;
+		this.onAccept = onAccept;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { changed, unknownIds, unknownEvents, store } = this.report;
+
+		contentEl.createEl('h2', { text: `Rebuild ratings: ${this.config.displayName}` });
+		contentEl.createEl('p', {
+			text: `Replayed ${store.events.length} comparison(s). ${changed.length} item(s) differ from the stored ratings.`,
+		});
+
+		if (changed.length > 0) {
+			const table = contentEl.createEl('table');
+			const header = table.createEl('tr');
+			['Item', 'Stored rating', 'Rebuilt rating', 'Stored games', 'Rebuilt games'].forEach(
+				(text) => header.createEl('th', { text })
+			);
+			for (const diff of changed) {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: diff.id });
+				row.createEl('td', { text: diff.stored ? String(diff.stored.rating) : '—' });
+				row.createEl('td', { text: String(diff.rebuilt.rating) });
+				row.createEl('td', { text: diff.stored ? String(diff.stored.games) : '—' });
+				row.createEl('td', { text: String(diff.rebuilt.games) });
+			}
+		}
+
+		if (unknownIds.length > 0) {
+			contentEl.createEl('h3', { text: 'Unknown items' });
+			contentEl.createEl('p', {
+				text: `${unknownEvents} comparison(s) reference items that are neither a note nor in the stored ratings:`,
+				cls: 'setting-item-description',
+			});
+			const list = contentEl.createEl('ul');
+			unknownIds.forEach((id) => list.createEl('li', { text: id }));
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Accept rebuilt ratings')
+					.setCta()
+					.setDisabled(changed.length === 0)
+					.onClick(async () => {
+						await this.onAccept();
+						this.close();
+					})
+			)
+			.addButton((btn) => btn.setButtonText('Cancel').onClick(() => this.close()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { ComparisonTypeConfig, SessionRatingChange, SessionSummary } from './types';
+import { describeSessionGoal, formatDuration } from './helpers/session';
+
+/**
+ * Shows what a comparison session achieved: its comparisons, the biggest rating changes,
+ * the items that left provisional status and the time spent
+ */
+export class SessionSummaryModal extends Modal {
+	private config: ComparisonTypeConfig;
+	private summary: SessionSummary;
+
+	constructor(app: App, config: ComparisonTypeConfig, summary: SessionSummary) {
+		super(app);
+		this.config = config;
+		this.summary = summary;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const { goal, started, ended, comparisons, reachedGoal, risers, fallers, leftProvisional } =
+			this.summary;
+
+		contentEl.createEl('h2', { text: `Session summary: ${this.config.displayName}` });
+		contentEl.createEl('p', {
+			text:
+				`${new Date(started).toLocaleString()}. Goal: ${describeSessionGoal(goal)}` +
+				(reachedGoal ? ' (reached).' : ' (ended early).'),
+			cls: 'setting-item-description',
+		});
+
+		const table = contentEl.createEl('table');
+		const addRow = (label: string, value: string) => {
+			const row = table.createEl('tr');
+			row.createEl('th', { text: label });
+			row.createEl('td', { text: value });
+		};
+		addRow('Comparisons', String(comparisons));
+		addRow('Time spent', formatDuration(ended - started));
+		addRow('Left provisional', String(leftProvisional.length));
+
+		this.renderChanges('Biggest risers', risers);
+		this.renderChanges('Biggest fallers', fallers);
+
+		if (leftProvisional.length > 0) {
+			contentEl.createEl('h3', { text: 'No longer provisional' });
+			const list = contentEl.createEl('ul');
+			leftProvisional.forEach(({ name }) => list.createEl('li', { text: name }));
+		}
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText('Close')
+				.setCta()
+				.onClick(() => this.close())
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderChanges(title: string, changes: SessionRatingChange[]): void {
+		if (changes.length === 0) return;
+		this.contentEl.createEl('h3', { text: title });
+		const table = this.contentEl.createEl('table');
+		const header = table.createEl('tr');
+		['Item', 'Before', 'After', 'Change'].forEach((text) => header.createEl('th', { text }));
+		for (const { name, before, after } of changes) {
+			const row = table.createEl('tr');
+			row.createEl('td', { text: name });
+			row.createEl('td', { text: String(before) });
+			row.createEl('td', { text: String(after) });
+			row.createEl('td', { text: `${after > before ? '+' : ''}${after - before}` });
+		}
+	}
+}
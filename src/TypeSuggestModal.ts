@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { ComparisonTypeConfig } from './types';
+
+export class TypeSuggestModal extends FuzzySuggestModal<ComparisonTypeConfig> {
+	private configs: ComparisonTypeConfig[];
+	private onChooseFn: (config: ComparisonTypeConfig) => void;
+
+	constructor(
+		app: App,
+		configs: ComparisonTypeConfig[],
+		onChoose: (config: ComparisonTypeConfig) => void
+	) {
+		super(app);
+		this.configs = configs;
+		this.onChooseFn = onChoose;
+		this.setPlaceholder('Choose a comparison type');
+	}
+
+	getItems(): ComparisonTypeConfig[] {
+		return this.configs;
+	}
+
+	getItemText(item: ComparisonTypeConfig): string {
+		return item.displayName || item.name;
+	}
+
+	onChooseItem(item: ComparisonTypeConfig): void {
+		this.onChooseFn(item);
+	}
+}
@@ -0,0 +1,90 @@
+import type { Modifier } from 'obsidian';
+import type { ComparisonActions } from './types';
+
+export interface ComparisonKey {
+	id: string; // Command id
+	name: string; // Command name
+	modifiers: Modifier[];
+	key: string; // KeyboardEvent.key
+	hint: string; // Short label shown in the UI
+	run: (actions: ComparisonActions) => void;
+}
+
+/**
+ * Keyboard bindings for the comparison view. Each entry is registered as a command without
+ * a hotkey, and its keys are bound in the Elo view's own scope, so they only apply while the
+ * view is focused: as global hotkeys the arrows and Mod+Z would shadow the editor's.
+ */
+export const COMPARISON_KEYS: ComparisonKey[] = [
+	{
+		id: 'choose-left',
+		name: 'Choose left item',
+		modifiers: [],
+		key: 'ArrowLeft',
+		hint: '←',
+		run: (actions) => actions.chooseLeft(),
+	},
+	{
+		id: 'choose-right',
+		name: 'Choose right item',
+		modifiers: [],
+		key: 'ArrowRight',
+		hint: '→',
+		run: (actions) => actions.chooseRight(),
+	},
+	{
+		id: 'draw',
+		name: 'Mark as draw',
+		modifiers: [],
+		key: 'ArrowDown',
+		hint: '↓',
+		run: (actions) => actions.draw(),
+	},
+	{
+		id: 'skip',
+		name: 'Skip pair',
+		modifiers: [],
+		key: 'ArrowUp',
+		hint: '↑',
+		run: (actions) => actions.skip(),
+	},
+	{
+		id: 'undo-comparison',
+		name: 'Undo last comparison',
+		modifiers: ['Mod'],
+		key: 'z',
+		hint: 'Mod+Z',
+		run: (actions) => actions.undo(),
+	},
+	{
+		id: 'redo-comparison',
+		name: 'Redo comparison',
+		modifiers: ['Mod', 'Shift'],
+		key: 'z',
+		hint: 'Mod+Shift+Z',
+		run: (actions) => actions.redo(),
+	},
+	{
+		id: 'remove-left',
+		name: 'Remove left item from pool',
+		modifiers: ['Shift'],
+		key: 'ArrowLeft',
+		hint: 'Shift+←',
+		run: (actions) => actions.removeLeft(),
+	},
+	{
+		id: 'remove-right',
+		name: 'Remove right item from pool',
+		modifiers: ['Shift'],
+		key: 'ArrowRight',
+		hint: 'Shift+→',
+		run: (actions) => actions.removeRight(),
+	},
+];
+
+/**
+ * Gets the UI hint for a binding by command id
+ */
+export function getKeyHint(id: string): string | undefined {
+	return COMPARISON_KEYS.find((binding) => binding.id === id)?.hint;
+}
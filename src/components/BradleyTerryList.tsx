@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import type { EloEvent, PluginInfo, SelectedFile } from '../types';
+import { fitBradleyTerry } from '../helpers/bradley-terry';
+
+interface BradleyTerryListProps {
+	items: SelectedFile[];
+	events: EloEvent[];
+	pluginInfo: PluginInfo;
+}
+
+// z-value of a 95% confidence interval
+const Z_95 = 1.96;
+
+/**
+ * Displays the batch Bradley-Terry ranking next to the live Elo ranking.
+ * The fit only runs while the section is open.
+ */
+export function BradleyTerryList({ items, events, pluginInfo }: BradleyTerryListProps) {
+	const [open, setOpen] = useState(false);
+
+	const rows = useMemo(() => {
+		if (!open) return [];
+		const fit = fitBradleyTerry(events);
+		const eloRank = new Map(
+			[...items].sort((a, b) => b.rating - a.rating).map((item, i) => [item.id, i + 1])
+		);
+		return items
+			.filter((item) => fit[item.id])
+			.map((item) => ({ item, fit: fit[item.id], eloRank: eloRank.get(item.id) ?? 0 }))
+			.sort((a, b) => b.fit.rating - a.fit.rating)
+			.map((row, i, sorted) => {
+				// Whether the data separates this item from the one ranked directly above
+				const above = sorted[i - 1];
+				const separated = above
+					? above.fit.rating - row.fit.rating >
+						Z_95 * Math.sqrt(above.fit.se ** 2 + row.fit.se ** 2)
+					: undefined;
+				return { ...row, separated };
+			});
+	}, [open, items, events]);
+
+	if (items.length === 0) {
+		return null;
+	}
+
+	const unrated = open ? items.length - rows.length : 0;
+
+	return (
+		<details
+			style={{ marginBottom: 12 }}
+			onToggle={(e) => setOpen((e.currentTarget as HTMLDetailsElement).open)}
+		>
+			<summary style={{ cursor: 'pointer' }}>Batch ranking (Bradley–Terry)</summary>
+			<div className="callout" data-callout="info" style={{ marginTop: 8 }}>
+				<div className="callout-content">
+					<p className="mod-muted" style={{ marginTop: 0 }}>
+						Fitted to all comparisons at once, so the order they were made in doesn't
+						matter. ± is the 95% interval; "unclear" means the data doesn't separate an
+						item from the one above it.
+					</p>
+					{rows.length === 0 ? (
+						<div className="mod-muted">No comparisons yet.</div>
+					) : (
+						<table>
+							<thead>
+								<tr>
+									<th>#</th>
+									<th>Name</th>
+									<th>Rating</th>
+									<th>Elo rank</th>
+									<th>vs. above</th>
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map(({ item, fit, eloRank, separated }, i) => (
+									<tr key={item.id}>
+										<td>{i + 1}</td>
+										<td>
+											<a
+												href="#"
+												className="internal-link"
+												onClick={(e) => {
+													e.preventDefault();
+													pluginInfo.app.workspace.openLinkText(
+														item.file.path,
+														'',
+														true
+													);
+												}}
+											>
+												{item.name}
+											</a>
+										</td>
+										<td>
+											{fit.rating} ± {Math.round(Z_95 * fit.se)}
+										</td>
+										<td className={eloRank !== i + 1 ? 'mod-warning' : undefined}>
+											{eloRank}
+										</td>
+										<td className="mod-muted">
+											{separated === undefined ? '' : separated ? 'clear' : 'unclear'}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					{unrated > 0 && (
+						<div className="mod-muted">
+							{unrated} item(s) without comparisons are not ranked.
+						</div>
+					)}
+				</div>
+			</div>
+		</details>
+	);
+}
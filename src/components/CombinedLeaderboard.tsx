@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import type { Criterion, PluginInfo, SelectedFile } from '../types';
+import { computeCombinedRanking } from '../helpers/criteria';
+import { useCriterionStores } from '../hooks/useCriterionStores';
+
+interface CombinedLeaderboardProps {
+	items: SelectedFile[];
+	typeName: string;
+	criteria: Criterion[];
+	pluginInfo: PluginInfo;
+}
+
+/**
+ * Displays the ranking by the weighted mean of the criteria ratings.
+ * The criteria are only loaded while the section is open.
+ */
+export function CombinedLeaderboard({
+	items,
+	typeName,
+	criteria,
+	pluginInfo,
+}: CombinedLeaderboardProps) {
+	const [open, setOpen] = useState(false);
+	const { stores } = useCriterionStores(
+		pluginInfo.vault,
+		typeName,
+		criteria.map((criterion) => criterion.id),
+		true,
+		open
+	);
+
+	const rows = useMemo(
+		() => (open && stores ? computeCombinedRanking(items, criteria, stores) : []),
+		[open, stores, items, criteria]
+	);
+
+	return (
+		<details
+			style={{ marginBottom: 12 }}
+			onToggle={(e) => setOpen((e.currentTarget as HTMLDetailsElement).open)}
+		>
+			<summary style={{ cursor: 'pointer' }}>Combined ranking</summary>
+			<div className="callout" data-callout="info" style={{ marginTop: 8 }}>
+				<div className="callout-content">
+					<p className="mod-muted" style={{ marginTop: 0 }}>
+						Weighted mean of the criteria ratings; criteria an item hasn't been compared
+						on count with the starting rating. Weights are set in the type's settings.
+					</p>
+					{!stores ? (
+						<div className="mod-muted">Loading criteria…</div>
+					) : (
+						<table>
+							<thead>
+								<tr>
+									<th>#</th>
+									<th>Name</th>
+									<th>Combined</th>
+									{criteria.map((criterion) => (
+										<th key={criterion.id}>
+											{criterion.name}
+											<span className="mod-muted">
+												{' '}
+												×{criterion.weight ?? 1}
+											</span>
+										</th>
+									))}
+									<th>Games</th>
+								</tr>
+							</thead>
+							<tbody>
+								{rows.map(({ item, rating, ratings, games }, i) => (
+									<tr key={item.id}>
+										<td>{i + 1}</td>
+										<td>
+											<a
+												href="#"
+												className="internal-link"
+												onClick={(e) => {
+													e.preventDefault();
+													pluginInfo.app.workspace.openLinkText(
+														item.file.path,
+														'',
+														true
+													);
+												}}
+											>
+												{item.name}
+											</a>
+										</td>
+										<td>{rating}</td>
+										{criteria.map((criterion) => (
+											<td
+												key={criterion.id}
+												className={
+													ratings[criterion.id] === undefined
+														? 'mod-muted'
+														: undefined
+												}
+											>
+												{ratings[criterion.id] ?? '—'}
+											</td>
+										))}
+										<td>{games}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			</div>
+		</details>
+	);
+}
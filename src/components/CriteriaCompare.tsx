@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type {
+	ComparisonTypeConfig,
+	Criterion,
+	Outcome,
+	PluginInfo,
+	RatingEngine,
+	SelectedFile,
+	StoreType,
+} from '../types';
+import type { KFactorSchedule } from '../helpers/k-factor';
+import {
+	computeCombinedRanking,
+	getCriterionConfig,
+	recordCriterionOutcome,
+} from '../helpers/criteria';
+import { getPairKey, pickPair } from '../helpers/pair-selection';
+import { writeRatingToFrontmatter } from '../helpers/frontmatter-sync';
+import { useCriterionStores } from '../hooks/useCriterionStores';
+import { DisplayEloItem } from '../DisplayEloItem';
+
+interface CriteriaCompareProps {
+	items: SelectedFile[];
+	typeConfig: ComparisonTypeConfig;
+	criteria: Criterion[];
+	pluginInfo: PluginInfo;
+	engine: RatingEngine;
+	kSchedule: KFactorSchedule;
+}
+
+const EMPTY_STORE: StoreType = { version: 1, events: [], ratings: {} };
+
+/**
+ * Asks every criterion about the same pair and records one comparison per criterion.
+ * Pairs are picked by the combined rating, favouring items with the fewest games
+ * on any criterion.
+ */
+export function CriteriaCompare({
+	items,
+	typeConfig,
+	criteria,
+	pluginInfo,
+	engine,
+	kSchedule,
+}: CriteriaCompareProps) {
+	const { vault, app } = pluginInfo;
+	const { stores, updateStore } = useCriterionStores(
+		vault,
+		typeConfig.name,
+		criteria.map((criterion) => criterion.id),
+		false
+	);
+	const [pair, setPair] = useState<[number, number] | null>(null);
+	const [answers, setAnswers] = useState<Record<string, Outcome>>({});
+
+	// Items rated by the combined ranking, with their fewest games on a single criterion
+	const combinedItems = useMemo(() => {
+		if (!stores) return [];
+		const rows = new Map(
+			computeCombinedRanking(items, criteria, stores).map((row) => [row.item.id, row])
+		);
+		return items.map((item) => ({
+			...item,
+			rating: rows.get(item.id)?.rating ?? item.rating,
+			games: Math.min(
+				...criteria.map((criterion) => stores[criterion.id]?.ratings[item.id]?.games ?? 0)
+			),
+		}));
+	}, [items, criteria, stores]);
+
+	const nextPair = useCallback(
+		(previous: [number, number] | null) => {
+			const a = previous && combinedItems[previous[0]];
+			const b = previous && combinedItems[previous[1]];
+			setPair(
+				pickPair(combinedItems, {
+					strategy: typeConfig.pairStrategy,
+					explorationRate: typeConfig.explorationRate,
+					topK: typeConfig.topK,
+					// Don't show the same pair twice in a row
+					recentPairs: new Set(a && b ? [getPairKey(a.id, b.id)] : []),
+				})
+			);
+			setAnswers({});
+		},
+		[combinedItems, typeConfig]
+	);
+
+	// Show a first pair once the stores are loaded
+	useEffect(() => {
+		if (!pair && combinedItems.length >= 2) nextPair(null);
+	}, [pair, combinedItems, nextPair]);
+
+	const left = pair ? combinedItems[pair[0]] : undefined;
+	const right = pair ? combinedItems[pair[1]] : undefined;
+
+	/**
+	 * Records the answers for every criterion, then moves on to the next pair
+	 */
+	const record = useCallback(
+		async (final: Record<string, Outcome>) => {
+			if (!stores || !left || !right) return;
+			for (const criterion of criteria) {
+				const outcome = final[criterion.id];
+				if (outcome === undefined) continue;
+				const updated = recordCriterionOutcome(
+					stores[criterion.id] ?? EMPTY_STORE,
+					left,
+					right,
+					outcome,
+					engine,
+					kSchedule
+				);
+				await updateStore(criterion.id, updated);
+
+				if (typeConfig.writeToFrontmatter) {
+					const config = getCriterionConfig(typeConfig, criterion);
+					for (const item of [left, right]) {
+						const data = updated.ratings[item.id];
+						writeRatingToFrontmatter(app, item.file, data, config).catch((e) =>
+							console.error('[EloCompare] Failed to write frontmatter', e)
+						);
+					}
+				}
+			}
+			nextPair(pair);
+		},
+		[
+			stores,
+			left,
+			right,
+			criteria,
+			engine,
+			kSchedule,
+			typeConfig,
+			app,
+			pair,
+			nextPair,
+			updateStore,
+		]
+	);
+
+	/**
+	 * Chooses one side for every criterion not answered yet, then records
+	 */
+	const chooseAll = (outcome: Outcome) => {
+		const final = { ...answers };
+		for (const criterion of criteria) {
+			if (final[criterion.id] === undefined) final[criterion.id] = outcome;
+		}
+		record(final);
+	};
+
+	if (!stores) {
+		return <div className="mod-muted">Loading criteria…</div>;
+	}
+
+	const answered = criteria.filter((criterion) => answers[criterion.id] !== undefined).length;
+	const choices: Array<{ outcome: Outcome; label: string }> = [
+		{ outcome: 1, label: left?.name ?? 'Left' },
+		{ outcome: 0.5, label: 'About the same' },
+		{ outcome: 0, label: right?.name ?? 'Right' },
+	];
+
+	return (
+		<div style={{ marginBottom: 12 }}>
+			<div style={{ display: 'flex', gap: 12, marginBottom: 12 }}>
+				<DisplayEloItem item={left} onChoose={() => chooseAll(1)} pluginInfo={pluginInfo} />
+				<DisplayEloItem
+					item={right}
+					onChoose={() => chooseAll(0)}
+					pluginInfo={pluginInfo}
+				/>
+			</div>
+
+			<table style={{ width: '100%', marginBottom: 8 }}>
+				<tbody>
+					{criteria.map((criterion) => (
+						<tr key={criterion.id}>
+							<td>{criterion.name}</td>
+							{choices.map(({ outcome, label }) => (
+								<td key={outcome}>
+									<button
+										className={
+											answers[criterion.id] === outcome
+												? 'mod-cta'
+												: undefined
+										}
+										style={{ width: '100%' }}
+										onClick={() =>
+											setAnswers((current) => ({
+												...current,
+												[criterion.id]: outcome,
+											}))
+										}
+									>
+										{label}
+									</button>
+								</td>
+							))}
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			<div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+				<button
+					className="mod-cta"
+					onClick={() => record(answers)}
+					disabled={answered < criteria.length}
+				>
+					Record
+				</button>
+				<button className="mod-contrast" onClick={() => nextPair(pair)}>
+					Skip
+				</button>
+				<span className="mod-muted">
+					{answered} of {criteria.length} criteria answered. Choosing a card answers the
+					rest for that item.
+				</span>
+			</div>
+		</div>
+	);
+}
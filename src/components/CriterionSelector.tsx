@@ -0,0 +1,34 @@
+import type { Criterion } from '../types';
+import { ALL_CRITERIA } from '../helpers/criteria';
+
+interface CriterionSelectorProps {
+	criteria: Criterion[];
+	current?: string; // Criterion id, ALL_CRITERIA, or undefined for the overall ranking
+	onChange: (criterion: string | undefined) => void;
+}
+
+/**
+ * Chooses which criterion the comparisons are about, or to ask all of them per pair
+ */
+export function CriterionSelector({ criteria, current, onChange }: CriterionSelectorProps) {
+	if (criteria.length === 0) return null;
+
+	return (
+		<div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+			<label htmlFor="elo-criterion-select">Criterion:</label>
+			<select
+				id="elo-criterion-select"
+				value={current ?? ''}
+				onChange={(e) => onChange(e.target.value || undefined)}
+			>
+				<option value="">Overall</option>
+				{criteria.map((criterion) => (
+					<option key={criterion.id} value={criterion.id}>
+						{criterion.name}
+					</option>
+				))}
+				<option value={ALL_CRITERIA}>All criteria for each pair</option>
+			</select>
+		</div>
+	);
+}
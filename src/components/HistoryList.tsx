@@ -40,7 +40,7 @@ function HistoryEntry({ entry, pluginInfo }: { entry: HistoryType; pluginInfo: P
 			<span>
 				<FileLink file={entry.winner.file} name={entry.winner.name} pluginInfo={pluginInfo} />
 			</span>
-			{' beat '}
+			{entry.draw ? ' drew with ' : ' beat '}
 			<span>
 				<FileLink file={entry.loser.file} name={entry.loser.name} pluginInfo={pluginInfo} />
 			</span>
@@ -0,0 +1,85 @@
+import type { InsertionState, InsertionSummary } from '../helpers/insertion';
+import { getRemainingComparisons } from '../helpers/insertion';
+
+interface InsertionBannerProps {
+	insertion: InsertionState | null;
+	name?: string; // Name of the item being placed
+	summary: InsertionSummary | null;
+	onStop: () => void;
+	onDismiss: () => void;
+}
+
+/**
+ * Shows the progress of placing an item, and where it ended up afterwards
+ */
+export function InsertionBanner({
+	insertion,
+	name,
+	summary,
+	onStop,
+	onDismiss,
+}: InsertionBannerProps) {
+	if (insertion) {
+		return (
+			<div className="callout" data-callout="tip" style={{ marginBottom: 12 }}>
+				<div className="callout-title">
+					<div className="callout-title-inner">Placing {name ?? insertion.id}</div>
+				</div>
+				<div
+					className="callout-content"
+					style={{
+						display: 'flex',
+						justifyContent: 'space-between',
+						alignItems: 'center',
+					}}
+				>
+					<span className="mod-muted">
+						Comparison {insertion.comparisons + 1}, about{' '}
+						{getRemainingComparisons(insertion)} left
+					</span>
+					<button onClick={onStop}>Stop placing</button>
+				</div>
+			</div>
+		);
+	}
+
+	if (summary) {
+		const change = summary.rating - summary.startRating;
+		const position = [
+			summary.above && `below ${summary.above}`,
+			summary.below && `above ${summary.below}`,
+		]
+			.filter(Boolean)
+			.join(', ');
+		return (
+			<div className="callout" data-callout="success" style={{ marginBottom: 12 }}>
+				<div className="callout-title">
+					<div className="callout-title-inner">
+						Placed {summary.name} at rank {summary.rank} of {summary.total}
+					</div>
+				</div>
+				<div
+					className="callout-content"
+					style={{
+						display: 'flex',
+						justifyContent: 'space-between',
+						alignItems: 'center',
+					}}
+				>
+					<span className="mod-muted">
+						{position && `Ranked ${position}. `}
+						{summary.comparisons} comparison(s), rating {summary.startRating} →{' '}
+						{summary.rating} ({change >= 0 ? '+' : ''}
+						{change}).
+						{summary.searchRank !== summary.rank &&
+							` The comparisons put it at rank ${summary.searchRank}; its ` +
+								'rating gets there with more comparisons.'}
+					</span>
+					<button onClick={onDismiss}>Dismiss</button>
+				</div>
+			</div>
+		);
+	}
+
+	return null;
+}
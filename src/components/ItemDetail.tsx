@@ -0,0 +1,55 @@
+import type { ItemStats, PluginInfo, SelectedFile } from '../types';
+import type { RatingPoint } from '../helpers/rating-history';
+import { RatingChart } from './RatingChart';
+
+interface ItemDetailProps {
+	item: SelectedFile;
+	points: RatingPoint[];
+	stats?: ItemStats;
+	names: Record<string, string>;
+	pluginInfo: PluginInfo;
+	onClose: () => void;
+}
+
+/**
+ * Shows the rating history of a single item as a chart
+ */
+export function ItemDetail({ item, points, stats, names, pluginInfo, onClose }: ItemDetailProps) {
+	return (
+		<div className="callout" data-callout="info" style={{ marginBottom: 12 }}>
+			<div
+				className="callout-title"
+				style={{ display: 'flex', justifyContent: 'space-between' }}
+			>
+				<div className="callout-title-inner">
+					<a
+						href="#"
+						className="internal-link"
+						onClick={(e) => {
+							e.preventDefault();
+							pluginInfo.app.workspace.openLinkText(item.file.path, '', true);
+						}}
+					>
+						{item.name}
+					</a>
+				</div>
+				<button onClick={onClose}>Close</button>
+			</div>
+			<div className="callout-content">
+				<div className="mod-muted" style={{ marginBottom: 8 }}>
+					Rating {item.rating} after {item.games} game(s)
+					{stats && ` — W/L/D: ${stats.wins}/${stats.losses}/${stats.draws}`}
+				</div>
+				<RatingChart points={points} names={names} />
+				<div
+					className="mod-muted"
+					style={{ marginTop: 4, fontSize: 'var(--font-smallest)' }}
+				>
+					<span style={{ color: 'var(--color-green)' }}>●</span> win{' '}
+					<span style={{ color: 'var(--color-red)' }}>●</span> loss{' '}
+					<span style={{ color: 'var(--text-muted)' }}>●</span> draw
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import type { ComparisonTypeConfig, ItemStats, PluginInfo, SelectedFile } from '../types';
+import { useCoverImage } from '../hooks/useCoverImage';
+import { isProvisional } from '../helpers/k-factor';
+import { formatLastCompared } from '../helpers/leaderboard';
+import type { RatingPoint } from '../helpers/rating-history';
+import { Sparkline } from './RatingChart';
+
+type SortKey = 'rank' | 'name' | 'rating' | 'games' | 'last' | 'wins' | 'losses' | 'draws';
+
+interface LeaderboardProps {
+	items: SelectedFile[];
+	stats: Record<string, ItemStats>;
+	histories: Record<string, RatingPoint[]>;
+	typeConfig: ComparisonTypeConfig;
+	pluginInfo: PluginInfo;
+	onCompare: (index: number) => void;
+	onInsert: (id: string) => void;
+	onRemove: (index: number) => void;
+	onShowHistory: (id: string) => void;
+}
+
+interface LeaderboardRow {
+	item: SelectedFile;
+	index: number; // index in the comparison items
+	rank: number;
+	stats: ItemStats;
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+	{ key: 'rank', label: '#' },
+	{ key: 'name', label: 'Name' },
+	{ key: 'rating', label: 'Rating' },
+	{ key: 'games', label: 'Games' },
+	{ key: 'last', label: 'Last compared' },
+	{ key: 'wins', label: 'W' },
+	{ key: 'losses', label: 'L' },
+	{ key: 'draws', label: 'D' },
+];
+
+const EMPTY_STATS: ItemStats = { wins: 0, losses: 0, draws: 0 };
+
+/**
+ * Compares two rows by a column, ascending
+ */
+function compareRows(a: LeaderboardRow, b: LeaderboardRow, key: SortKey): number {
+	switch (key) {
+		case 'rank':
+			return a.rank - b.rank;
+		case 'name':
+			return a.item.name.localeCompare(b.item.name);
+		case 'rating':
+			return a.item.rating - b.item.rating;
+		case 'games':
+			return a.item.games - b.item.games;
+		case 'last':
+			return (a.item.last ?? '').localeCompare(b.item.last ?? '');
+		default:
+			return a.stats[key] - b.stats[key];
+	}
+}
+
+/**
+ * Renders a single leaderboard row with its cover thumbnail and actions
+ */
+function LeaderboardEntry({
+	row,
+	history,
+	typeConfig,
+	pluginInfo,
+	onCompare,
+	onInsert,
+	onRemove,
+	onShowHistory,
+}: {
+	row: LeaderboardRow;
+	history?: RatingPoint[];
+	typeConfig: ComparisonTypeConfig;
+	pluginInfo: PluginInfo;
+	onCompare: (index: number) => void;
+	onInsert: (id: string) => void;
+	onRemove: (index: number) => void;
+	onShowHistory: (id: string) => void;
+}) {
+	const { item, rank, stats } = row;
+	const coverImageUrl = useCoverImage(item.frontmatter, item.file, pluginInfo);
+
+	const openNote = (e: React.MouseEvent) => {
+		e.preventDefault();
+		pluginInfo.app.workspace.openLinkText(item.file.path, '', true);
+	};
+
+	return (
+		<tr>
+			<td>{rank}</td>
+			<td>
+				<div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+					{coverImageUrl && (
+						<img
+							src={coverImageUrl}
+							alt=""
+							style={{ width: 32, height: 32, objectFit: 'cover', borderRadius: 4 }}
+							onError={(e) => {
+								(e.target as HTMLImageElement).style.display = 'none';
+							}}
+						/>
+					)}
+					<a href="#" className="internal-link" onClick={openNote}>
+						{item.name}
+					</a>
+					{isProvisional(item.games, typeConfig) && (
+						<span
+							className="mod-muted"
+							style={{ fontSize: 'var(--font-smallest)' }}
+							title="Too few games for the rating to be settled"
+						>
+							provisional
+						</span>
+					)}
+				</div>
+			</td>
+			<td>{item.rating}</td>
+			<td
+				style={{ cursor: history ? 'pointer' : undefined }}
+				title={history ? 'Show rating history' : undefined}
+				onClick={() => history && onShowHistory(item.id)}
+			>
+				{history && <Sparkline points={history} />}
+			</td>
+			<td>{item.games}</td>
+			<td className="mod-muted">
+				{formatLastCompared(item.last)}
+			</td>
+			<td>{stats.wins}</td>
+			<td>{stats.losses}</td>
+			<td>{stats.draws}</td>
+			<td>
+				<div style={{ display: 'flex', gap: 4 }}>
+					<button onClick={() => onShowHistory(item.id)} disabled={!history}>
+						History
+					</button>
+					<button onClick={() => onCompare(row.index)}>Compare now</button>
+					<button
+						onClick={() => onInsert(item.id)}
+						title="Place this item by comparing it against the middle of the ranking"
+					>
+						Insert
+					</button>
+					<button
+						className="mod-warning"
+						onClick={() => onRemove(row.index)}
+						title="Remove this item from the pool for this session only"
+					>
+						Remove
+					</button>
+				</div>
+			</td>
+		</tr>
+	);
+}
+
+/**
+ * Displays a sortable, searchable leaderboard of all loaded items
+ */
+export function Leaderboard({
+	items,
+	stats,
+	histories,
+	typeConfig,
+	pluginInfo,
+	onCompare,
+	onInsert,
+	onRemove,
+	onShowHistory,
+}: LeaderboardProps) {
+	const [sortKey, setSortKey] = useState<SortKey>('rank');
+	const [descending, setDescending] = useState(false);
+	const [query, setQuery] = useState('');
+
+	const rows = useMemo(() => {
+		const ranked: LeaderboardRow[] = items
+			.map((item, index) => ({
+				item,
+				index,
+				rank: 0,
+				stats: stats[item.id] ?? EMPTY_STATS,
+			}))
+			.sort((a, b) => b.item.rating - a.item.rating);
+		ranked.forEach((row, i) => {
+			// Equal ratings share a rank
+			const previous = ranked[i - 1];
+			row.rank = previous && previous.item.rating === row.item.rating ? previous.rank : i + 1;
+		});
+
+		const search = query.trim().toLowerCase();
+		const filtered = search
+			? ranked.filter((row) => row.item.name.toLowerCase().includes(search))
+			: ranked;
+		const direction = descending ? -1 : 1;
+		return [...filtered].sort((a, b) => direction * compareRows(a, b, sortKey));
+	}, [items, stats, query, sortKey, descending]);
+
+	if (items.length === 0) {
+		return null;
+	}
+
+	const toggleSort = (key: SortKey) => {
+		if (key === sortKey) {
+			setDescending(!descending);
+		} else {
+			setSortKey(key);
+			// Ratings, counts and dates are most useful highest first
+			setDescending(key !== 'rank' && key !== 'name');
+		}
+	};
+
+	return (
+		<div style={{ marginBottom: 12 }}>
+			<div
+				style={{
+					display: 'flex',
+					justifyContent: 'space-between',
+					alignItems: 'center',
+				}}
+			>
+				<h4>Leaderboard ({items.length})</h4>
+				<input
+					type="search"
+					placeholder="Search…"
+					value={query}
+					onChange={(e) => setQuery(e.target.value)}
+				/>
+			</div>
+			<div style={{ maxHeight: 400, overflowY: 'auto' }}>
+				<table style={{ width: '100%' }}>
+					<thead>
+						<tr>
+							{COLUMNS.map((column) => [
+								<th
+									key={column.label}
+									style={{ cursor: 'pointer', whiteSpace: 'nowrap' }}
+									onClick={() => toggleSort(column.key)}
+								>
+									{column.label}
+									{column.key === sortKey && (descending ? ' ▼' : ' ▲')}
+								</th>,
+								// The unsortable trend column follows the rating
+								column.key === 'rating' && <th key="trend">Trend</th>,
+							])}
+							<th />
+						</tr>
+					</thead>
+					<tbody>
+						{rows.map((row) => (
+							<LeaderboardEntry
+								key={row.item.id}
+								row={row}
+								history={histories[row.item.id]}
+								typeConfig={typeConfig}
+								pluginInfo={pluginInfo}
+								onCompare={onCompare}
+								onInsert={onInsert}
+								onRemove={onRemove}
+								onShowHistory={onShowHistory}
+							/>
+						))}
+					</tbody>
+				</table>
+				{rows.length === 0 && <div className="mod-muted">No items match the search.</div>}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,178 @@
+import type { PointResult, RatingPoint } from '../helpers/rating-history';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+
+const RESULT_COLORS: Record<PointResult, string> = {
+	win: 'var(--color-green)',
+	loss: 'var(--color-red)',
+	draw: 'var(--text-muted)',
+};
+
+const RESULT_LABELS: Record<PointResult, string> = {
+	win: 'Won',
+	loss: 'Lost',
+	draw: 'Drew',
+};
+
+// Points shown in a sparkline, most recent last
+const SPARKLINE_POINTS = 30;
+
+/**
+ * Gets the rating range to plot, padded so a flat line isn't drawn on the border
+ */
+function getRange(points: RatingPoint[]): [number, number] {
+	const ratings = points.map((p) => p.rating);
+	const min = Math.min(...ratings);
+	const max = Math.max(...ratings);
+	const margin = Math.max(10, (max - min) * 0.1);
+	return [min - margin, max + margin];
+}
+
+/**
+ * Draws the rating of an item over time as an inline SVG line chart,
+ * with each comparison marked as a win, loss or draw
+ */
+export function RatingChart({
+	points,
+	names,
+}: {
+	points: RatingPoint[];
+	names: Record<string, string>; // Opponent names by id
+}) {
+	if (points.length < 2) {
+		return <div className="mod-muted">No comparisons yet.</div>;
+	}
+
+	const [minRating, maxRating] = getRange(points);
+	const firstT = points[0].t;
+	const lastT = points[points.length - 1].t;
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+	// If all comparisons share one timestamp, spread them evenly instead of stacking them
+	const x = (p: RatingPoint, i: number) => {
+		const share =
+			lastT === firstT ? i / (points.length - 1) : (p.t - firstT) / (lastT - firstT);
+		return PADDING.left + share * plotWidth;
+	};
+	const y = (rating: number) =>
+		PADDING.top + (1 - (rating - minRating) / (maxRating - minRating)) * plotHeight;
+
+	const line = points
+		.map((p, i) => `${x(p, i).toFixed(1)},${y(p.rating).toFixed(1)}`)
+		.join(' ');
+	const ticks = [
+		Math.ceil(minRating),
+		Math.round((minRating + maxRating) / 2),
+		Math.floor(maxRating),
+	];
+	const formatDate = (t: number) => new Date(t).toLocaleDateString();
+
+	return (
+		<svg
+			viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+			style={{ width: '100%', height: 'auto', display: 'block' }}
+			role="img"
+			aria-label="Rating over time"
+		>
+			{ticks.map((tick) => (
+				<g key={tick}>
+					<line
+						x1={PADDING.left}
+						x2={WIDTH - PADDING.right}
+						y1={y(tick)}
+						y2={y(tick)}
+						stroke="var(--background-modifier-border)"
+					/>
+					<text
+						x={PADDING.left - 6}
+						y={y(tick) + 4}
+						textAnchor="end"
+						fontSize={11}
+						fill="var(--text-muted)"
+					>
+						{tick}
+					</text>
+				</g>
+			))}
+			<text x={PADDING.left} y={HEIGHT - 6} fontSize={11} fill="var(--text-muted)">
+				{formatDate(firstT)}
+			</text>
+			<text
+				x={WIDTH - PADDING.right}
+				y={HEIGHT - 6}
+				textAnchor="end"
+				fontSize={11}
+				fill="var(--text-muted)"
+			>
+				{formatDate(lastT)}
+			</text>
+			<polyline
+				points={line}
+				fill="none"
+				stroke="var(--interactive-accent)"
+				strokeWidth={2}
+			/>
+			{points.map(
+				(p, i) =>
+					p.result && (
+						<circle
+							key={i}
+							cx={x(p, i)}
+							cy={y(p.rating)}
+							r={3.5}
+							fill={RESULT_COLORS[p.result]}
+						>
+							<title>
+								{`${formatDate(p.t)}: ${RESULT_LABELS[p.result]} vs ${
+									names[p.opponent ?? ''] ?? p.opponent
+								} → ${p.rating}`}
+							</title>
+						</circle>
+					)
+			)}
+		</svg>
+	);
+}
+
+/**
+ * Draws a small line of an item's most recent ratings
+ */
+export function Sparkline({
+	points,
+	width = 80,
+	height = 20,
+}: {
+	points: RatingPoint[];
+	width?: number;
+	height?: number;
+}) {
+	const recent = points.slice(-SPARKLINE_POINTS);
+	if (recent.length < 2) return null;
+
+	const [minRating, maxRating] = getRange(recent);
+	const line = recent
+		.map((p, i) => {
+			const px = (i / (recent.length - 1)) * (width - 2) + 1;
+			const py = (1 - (p.rating - minRating) / (maxRating - minRating)) * (height - 2) + 1;
+			return `${px.toFixed(1)},${py.toFixed(1)}`;
+		})
+		.join(' ');
+	const last = recent[recent.length - 1];
+	const lastY = (1 - (last.rating - minRating) / (maxRating - minRating)) * (height - 2) + 1;
+
+	return (
+		<svg width={width} height={height} style={{ verticalAlign: 'middle' }} aria-hidden="true">
+			<polyline points={line} fill="none" stroke="var(--text-muted)" strokeWidth={1.5} />
+			{last.result && (
+				<circle
+					cx={width - 1}
+					cy={lastY}
+					r={2}
+					fill={RESULT_COLORS[last.result]}
+				/>
+			)}
+		</svg>
+	);
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import type { SessionGoal, SessionSummary } from '../types';
+import type { SessionProgress } from '../helpers/session';
+import { describeSessionGoal, formatDuration } from '../helpers/session';
+
+interface SessionPanelProps {
+	progress: SessionProgress | null; // Progress of the running session, if any
+	sessions: SessionSummary[];
+	onStart: (goal: SessionGoal) => void;
+	onEnd: () => void;
+	onShowSummary: (summary: SessionSummary) => void;
+}
+
+/**
+ * Form for starting a session with a number of comparisons or a time box as its goal
+ */
+function SessionSetup({ onStart }: Pick<SessionPanelProps, 'onStart'>) {
+	const [kind, setKind] = useState<SessionGoal['kind']>('comparisons');
+	const [count, setCount] = useState(20);
+	const [minutes, setMinutes] = useState(10);
+
+	const start = () =>
+		onStart(
+			kind === 'comparisons'
+				? { kind, count: Math.max(1, Math.floor(count)) }
+				: { kind, minutes: Math.max(1, Math.floor(minutes)) }
+		);
+
+	return (
+		<div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+			<select value={kind} onChange={(e) => setKind(e.target.value as SessionGoal['kind'])}>
+				<option value="comparisons">Number of comparisons</option>
+				<option value="time">Time box</option>
+			</select>
+			{kind === 'comparisons' ? (
+				<label>
+					<input
+						type="number"
+						min={1}
+						value={count}
+						style={{ width: 64 }}
+						onChange={(e) => setCount(Number(e.target.value))}
+					/>{' '}
+					comparisons
+				</label>
+			) : (
+				<label>
+					<input
+						type="number"
+						min={1}
+						value={minutes}
+						style={{ width: 64 }}
+						onChange={(e) => setMinutes(Number(e.target.value))}
+					/>{' '}
+					minutes
+				</label>
+			)}
+			<button className="mod-cta" onClick={start}>
+				Start session
+			</button>
+		</div>
+	);
+}
+
+/**
+ * Table of the completed sessions, most recent first
+ */
+function PastSessions({
+	sessions,
+	onShowSummary,
+}: Pick<SessionPanelProps, 'sessions' | 'onShowSummary'>) {
+	if (sessions.length === 0) {
+		return <div className="mod-muted">No completed sessions yet.</div>;
+	}
+
+	return (
+		<table>
+			<thead>
+				<tr>
+					<th>Started</th>
+					<th>Goal</th>
+					<th>Comparisons</th>
+					<th>Time</th>
+					<th></th>
+				</tr>
+			</thead>
+			<tbody>
+				{[...sessions].reverse().map((summary) => (
+					<tr key={summary.started}>
+						<td>{new Date(summary.started).toLocaleString()}</td>
+						<td>
+							{describeSessionGoal(summary.goal)}
+							{!summary.reachedGoal && (
+								<span className="mod-muted"> (ended early)</span>
+							)}
+						</td>
+						<td>{summary.comparisons}</td>
+						<td>{formatDuration(summary.ended - summary.started)}</td>
+						<td>
+							<button onClick={() => onShowSummary(summary)}>Summary</button>
+						</td>
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
+
+/**
+ * Shows the progress of the running session, or lets the user start one and look back
+ * at past sessions
+ */
+export function SessionPanel({
+	progress,
+	sessions,
+	onStart,
+	onEnd,
+	onShowSummary,
+}: SessionPanelProps) {
+	if (progress) {
+		return (
+			<div className="callout" data-callout="note" style={{ marginBottom: 12 }}>
+				<div className="callout-title">
+					<div className="callout-title-inner">Session in progress</div>
+				</div>
+				<div className="callout-content">
+					<div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+						<progress value={progress.value} max={progress.max} />
+						<span className="mod-muted">{progress.label}</span>
+						<button onClick={onEnd}>End session</button>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<details style={{ marginBottom: 12 }}>
+			<summary style={{ cursor: 'pointer' }}>Session</summary>
+			<div className="callout" data-callout="info" style={{ marginTop: 8 }}>
+				<div className="callout-content">
+					<SessionSetup onStart={onStart} />
+					<h4>Past sessions</h4>
+					<PastSessions sessions={sessions} onShowSummary={onShowSummary} />
+				</div>
+			</div>
+		</details>
+	);
+}
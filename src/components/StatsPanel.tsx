@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import type { PluginInfo, SelectedFile } from '../types';
+import type { ReplayStep } from '../helpers/event-log';
+import { computeStatistics, SETTLEDNESS_WINDOW } from '../helpers/statistics';
+import type { Bar } from '../helpers/statistics';
+
+interface StatsPanelProps {
+	items: SelectedFile[];
+	steps: ReplayStep[]; // The replayed event log
+	pluginInfo: PluginInfo;
+}
+
+// Items listed as never compared; the rest are only counted
+const MAX_NEVER_SHOWN = 20;
+
+/**
+ * Draws bars as an inline SVG chart, labelling the first and last bar
+ */
+function BarChart({ bars, title }: { bars: Bar[]; title: string }) {
+	const width = 300;
+	const height = 80;
+	const max = Math.max(1, ...bars.map((bar) => bar.value));
+	const barWidth = width / Math.max(bars.length, 1);
+
+	return (
+		<div style={{ flex: 1, minWidth: 200 }}>
+			<div className="mod-muted" style={{ fontSize: 'var(--font-smallest)' }}>
+				{title}
+			</div>
+			<svg
+				viewBox={`0 0 ${width} ${height + 14}`}
+				style={{ width: '100%', height: 'auto', display: 'block' }}
+				role="img"
+				aria-label={title}
+			>
+				{bars.map((bar, i) => {
+					const barHeight = (bar.value / max) * height;
+					return (
+						<rect
+							key={i}
+							x={i * barWidth + 1}
+							y={height - barHeight}
+							width={Math.max(barWidth - 2, 1)}
+							height={barHeight}
+							fill="var(--interactive-accent)"
+						>
+							<title>{`${bar.label}: ${bar.value}`}</title>
+						</rect>
+					);
+				})}
+				{bars.length > 0 && (
+					<>
+						<text x={0} y={height + 12} fontSize={10} fill="var(--text-muted)">
+							{bars[0].label}
+						</text>
+						<text
+							x={width}
+							y={height + 12}
+							fontSize={10}
+							textAnchor="end"
+							fill="var(--text-muted)"
+						>
+							{bars[bars.length - 1].label}
+						</text>
+					</>
+				)}
+			</svg>
+		</div>
+	);
+}
+
+/**
+ * Displays statistics of the current comparison type.
+ * They are only computed while the section is open.
+ */
+export function StatsPanel({ items, steps, pluginInfo }: StatsPanelProps) {
+	const [open, setOpen] = useState(false);
+
+	const stats = useMemo(
+		() => (open ? computeStatistics(steps, items) : null),
+		[open, steps, items]
+	);
+
+	return (
+		<details
+			style={{ marginBottom: 12 }}
+			onToggle={(e) => setOpen((e.currentTarget as HTMLDetailsElement).open)}
+		>
+			<summary style={{ cursor: 'pointer' }}>Statistics</summary>
+			{stats && (
+				<div className="callout" data-callout="info" style={{ marginTop: 8 }}>
+					<div className="callout-content">
+						<ul style={{ marginTop: 0 }}>
+							<li>
+								{stats.comparisons} comparison(s); {stats.totalGames} game(s)
+								across {items.length} item(s), {stats.averageGames.toFixed(1)} per
+								item on average
+							</li>
+							<li>
+								Upset rate:{' '}
+								{stats.decided > 0
+									? `${Math.round((100 * stats.upsets) / stats.decided)}% ` +
+										`(${stats.upsets} of ${stats.decided} decided comparisons ` +
+										'were won by the lower-rated item)'
+									: 'no decided comparisons yet'}
+							</li>
+							<li>
+								Settledness:{' '}
+								{stats.averageRankChange !== undefined
+									? `items moved ${stats.averageRankChange.toFixed(1)} rank(s) ` +
+										`on average over the last ${SETTLEDNESS_WINDOW} comparisons`
+									: `needs at least ${SETTLEDNESS_WINDOW} comparisons`}
+							</li>
+						</ul>
+
+						<div style={{ display: 'flex', flexWrap: 'wrap', gap: 16 }}>
+							<BarChart bars={stats.perDay} title="Comparisons per day" />
+							<BarChart bars={stats.perWeek} title="Comparisons per week" />
+							<BarChart bars={stats.histogram} title="Rating distribution" />
+						</div>
+
+						<h5>Never compared ({stats.neverCompared.length})</h5>
+						{stats.neverCompared.length === 0 ? (
+							<div className="mod-muted">Every item has been compared.</div>
+						) : (
+							<ul>
+								{stats.neverCompared.slice(0, MAX_NEVER_SHOWN).map((item) => (
+									<li key={item.id}>
+										<a
+											href="#"
+											className="internal-link"
+											onClick={(e) => {
+												e.preventDefault();
+												pluginInfo.app.workspace.openLinkText(
+													item.file.path,
+													'',
+													true
+												);
+											}}
+										>
+											{item.name}
+										</a>
+									</li>
+								))}
+								{stats.neverCompared.length > MAX_NEVER_SHOWN && (
+									<li className="mod-muted">
+										…and {stats.neverCompared.length - MAX_NEVER_SHOWN} more
+									</li>
+								)}
+							</ul>
+						)}
+					</div>
+				</div>
+			)}
+		</details>
+	);
+}
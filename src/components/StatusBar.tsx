@@ -1,4 +1,5 @@
 import type { PluginInfo, SelectedFile, ComparisonTypeConfig } from '../types';
+import { PAIR_STRATEGIES } from '../helpers/pair-selection';
 
 interface StatusBarProps {
 	loadingSelectedFiles: boolean;
@@ -37,6 +38,12 @@ export function StatusBar({
 							{items.length} file(s) loaded from "
 							{typeConfig.defaultFolder || 'all folders'}"
 						</span>
+						<span
+							className="mod-muted"
+							title={PAIR_STRATEGIES[typeConfig.pairStrategy ?? 'balanced'].description}
+						>
+							Pairing: {PAIR_STRATEGIES[typeConfig.pairStrategy ?? 'balanced'].name}
+						</span>
 						<div style={{ display: 'flex', gap: 8 }}>
 							<button className="mod-warning" onClick={onReset}>
 								Reset
@@ -0,0 +1,50 @@
+import type { TopKStability } from '../helpers/top-k';
+
+interface TopKStatusProps {
+	stability: TopKStability;
+	itemCount: number;
+}
+
+/**
+ * Tells whether the top-K set is still changing or has settled
+ */
+export function TopKStatus({ stability, itemCount }: TopKStatusProps) {
+	const { k, window, unchangedFor, stable } = stability;
+
+	if (itemCount <= k) {
+		return (
+			<div className="callout" data-callout="note" style={{ marginBottom: 12 }}>
+				<div className="callout-content mod-muted">
+					Only {itemCount} item(s) loaded, so all of them are in the top {k}.
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div
+			className="callout"
+			data-callout={stable ? 'success' : 'note'}
+			style={{ marginBottom: 12 }}
+		>
+			<div className="callout-title">
+				<div className="callout-title-inner">
+					{stable ? `Top ${k} settled` : `Focusing on the top ${k}`}
+				</div>
+			</div>
+			<div className="callout-content">
+				<div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+					<progress value={Math.min(unchangedFor, window)} max={window} />
+					<span className="mod-muted">
+						{stable
+							? `The top ${k} hasn't changed in the last ${unchangedFor} ` +
+								'comparisons; more comparisons are unlikely to change which ' +
+								'items are in it.'
+							: `Unchanged for ${unchangedFor} of ${window} comparisons needed ` +
+								'to count as settled.'}
+					</span>
+				</div>
+			</div>
+		</div>
+	);
+}
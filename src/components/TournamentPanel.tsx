@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import type { SelectedFile, Tournament, TournamentFormat, TournamentMatch } from '../types';
+import {
+	getBracketRoundName,
+	getChampion,
+	getCurrentMatch,
+	getDefaultSwissRounds,
+	getMatchWinner,
+	getStandings,
+	getTournamentProgress,
+	TOURNAMENT_FORMATS,
+} from '../helpers/tournament';
+
+interface TournamentPanelProps {
+	tournament?: Tournament;
+	items: SelectedFile[];
+	names: Record<string, string>;
+	defaultName: string;
+	onStart: (
+		name: string,
+		format: TournamentFormat,
+		participants: SelectedFile[],
+		swissRounds: number
+	) => void;
+	onForfeit: (winnerId: string) => void;
+	onEnd: () => void;
+}
+
+/**
+ * Form for starting a tournament over the top-rated items
+ */
+function TournamentSetup({
+	items,
+	defaultName,
+	onStart,
+}: Pick<TournamentPanelProps, 'items' | 'defaultName' | 'onStart'>) {
+	const [name, setName] = useState(defaultName);
+	const [format, setFormat] = useState<TournamentFormat>('swiss');
+	const [size, setSize] = useState(items.length);
+	const participants = Math.min(Math.max(size, 2), items.length);
+	const [rounds, setRounds] = useState<number | null>(null);
+	const swissRounds = rounds ?? getDefaultSwissRounds(participants);
+
+	const start = () => {
+		const top = [...items].sort((a, b) => b.rating - a.rating).slice(0, participants);
+		onStart(name.trim() || defaultName, format, top, swissRounds);
+	};
+
+	return (
+		<div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+			<input
+				type="text"
+				value={name}
+				placeholder="Tournament name"
+				onChange={(e) => setName(e.target.value)}
+			/>
+			<select
+				value={format}
+				title={TOURNAMENT_FORMATS[format].description}
+				onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+			>
+				{Object.entries(TOURNAMENT_FORMATS).map(([id, { name }]) => (
+					<option key={id} value={id}>
+						{name}
+					</option>
+				))}
+			</select>
+			<label>
+				Top{' '}
+				<input
+					type="number"
+					min={2}
+					max={items.length}
+					value={size}
+					style={{ width: 64 }}
+					onChange={(e) => setSize(Number(e.target.value))}
+				/>{' '}
+				items
+			</label>
+			{format === 'swiss' && (
+				<label>
+					<input
+						type="number"
+						min={1}
+						value={swissRounds}
+						style={{ width: 48 }}
+						onChange={(e) => setRounds(Math.max(1, Number(e.target.value)))}
+					/>{' '}
+					rounds
+				</label>
+			)}
+			<button className="mod-cta" onClick={start} disabled={items.length < 2}>
+				Start tournament
+			</button>
+		</div>
+	);
+}
+
+/**
+ * Table of the Swiss standings
+ */
+function Standings({
+	tournament,
+	names,
+}: {
+	tournament: Tournament;
+	names: Record<string, string>;
+}) {
+	return (
+		<table>
+			<thead>
+				<tr>
+					<th>#</th>
+					<th>Name</th>
+					<th>Points</th>
+					<th>W/L/D</th>
+					<th title="Sum of the opponents' points, breaks ties">Buchholz</th>
+				</tr>
+			</thead>
+			<tbody>
+				{getStandings(tournament).map((standing, i) => (
+					<tr key={standing.id}>
+						<td>{i + 1}</td>
+						<td>
+							{names[standing.id] ?? standing.id}
+							<span className="mod-muted"> ({standing.seed})</span>
+						</td>
+						<td>{standing.points}</td>
+						<td>
+							{standing.wins}/{standing.losses}/{standing.draws}
+							{standing.byes > 0 && (
+								<span className="mod-muted"> + {standing.byes} bye(s)</span>
+							)}
+						</td>
+						<td>{standing.buchholz}</td>
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
+
+/**
+ * One side of a bracket match: the winner is bold, the loser muted
+ */
+function BracketSlot({
+	id,
+	match,
+	names,
+}: {
+	id?: string;
+	match?: TournamentMatch;
+	names: Record<string, string>;
+}) {
+	const winner = match && getMatchWinner(match);
+	return (
+		<div
+			className={winner && winner !== id ? 'mod-muted' : undefined}
+			style={{ fontWeight: winner && winner === id ? 'bold' : undefined }}
+		>
+			{id ? (names[id] ?? id) : match ? 'bye' : 'TBD'}
+		</div>
+	);
+}
+
+/**
+ * Draws the bracket as one column per round, with unpaired rounds as placeholders
+ */
+function Bracket({
+	tournament,
+	names,
+}: {
+	tournament: Tournament;
+	names: Record<string, string>;
+}) {
+	const current = getCurrentMatch(tournament);
+	const size = 2 ** tournament.totalRounds;
+	const columns = Array.from(
+		{ length: tournament.totalRounds },
+		(_, r): Array<TournamentMatch | undefined> =>
+			tournament.rounds[r] ?? Array.from({ length: size / 2 ** (r + 1) }, () => undefined)
+	);
+
+	return (
+		<div style={{ display: 'flex', gap: 12, overflowX: 'auto' }}>
+			{columns.map((matches, r) => (
+				<div
+					key={r}
+					style={{
+						display: 'flex',
+						flexDirection: 'column',
+						justifyContent: 'space-around',
+						gap: 8,
+						minWidth: 140,
+					}}
+				>
+					<div className="mod-muted" style={{ fontSize: 'var(--font-smallest)' }}>
+						{getBracketRoundName(r, tournament.totalRounds)}
+					</div>
+					{matches.map((match, i) => (
+						<div
+							key={i}
+							style={{
+								border: '1px solid var(--background-modifier-border)',
+								borderColor:
+									match && match === current
+										? 'var(--interactive-accent)'
+										: undefined,
+								borderRadius: 4,
+								padding: '2px 6px',
+								fontSize: 'var(--font-smaller)',
+							}}
+						>
+							<BracketSlot id={match?.a} match={match} names={names} />
+							<BracketSlot id={match?.b} match={match} names={names} />
+						</div>
+					))}
+				</div>
+			))}
+		</div>
+	);
+}
+
+/**
+ * Sets up a tournament, and shows the progress of the running one as standings or a bracket
+ */
+export function TournamentPanel({
+	tournament,
+	items,
+	names,
+	defaultName,
+	onStart,
+	onForfeit,
+	onEnd,
+}: TournamentPanelProps) {
+	if (!tournament) {
+		return (
+			<details style={{ marginBottom: 12 }}>
+				<summary style={{ cursor: 'pointer' }}>Tournament</summary>
+				<div className="callout" data-callout="info" style={{ marginTop: 8 }}>
+					<div className="callout-content">
+						<p className="mod-muted" style={{ marginTop: 0 }}>
+							Runs a structured event instead of open-ended pairs. Items are seeded by
+							their rating, and every match is also recorded as a comparison.
+						</p>
+						<TournamentSetup
+							items={items}
+							defaultName={defaultName}
+							onStart={onStart}
+						/>
+					</div>
+				</div>
+			</details>
+		);
+	}
+
+	const current = getCurrentMatch(tournament);
+	const champion = getChampion(tournament);
+	const progress = getTournamentProgress(tournament);
+	const available = new Set(items.map((item) => item.id));
+	const round = tournament.rounds.length;
+	const status = tournament.finished
+		? `won by ${champion ? (names[champion] ?? champion) : 'nobody'}`
+		: tournament.format === 'elimination'
+			? getBracketRoundName(round - 1, tournament.totalRounds)
+			: `round ${round} of ${tournament.totalRounds}`;
+	const present = current && [current.a, current.b ?? ''].filter((id) => available.has(id));
+
+	return (
+		<div
+			className="callout"
+			data-callout={tournament.finished ? 'success' : 'example'}
+			style={{ marginBottom: 12 }}
+		>
+			<div
+				className="callout-title"
+				style={{ display: 'flex', justifyContent: 'space-between' }}
+			>
+				<div className="callout-title-inner">
+					{tournament.name} — {status}
+				</div>
+				<button
+					className={tournament.finished ? undefined : 'mod-warning'}
+					onClick={() => {
+						if (tournament.finished || confirm('Abandon this tournament?')) onEnd();
+					}}
+				>
+					{tournament.finished ? 'Close' : 'Abandon'}
+				</button>
+			</div>
+			<div className="callout-content">
+				<div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+					<progress value={progress.played} max={progress.total} />
+					<span className="mod-muted">
+						{progress.played} of {progress.total} match(es) played
+					</span>
+				</div>
+				{present && present.length < 2 && (
+					<div className="mod-warning" style={{ marginBottom: 8 }}>
+						A note of the current match is no longer available.{' '}
+						{present.length === 1 && (
+							<button onClick={() => onForfeit(present[0])}>
+								Advance {names[present[0]] ?? present[0]}
+							</button>
+						)}
+					</div>
+				)}
+				{tournament.format === 'elimination' ? (
+					<Bracket tournament={tournament} names={names} />
+				) : (
+					<Standings tournament={tournament} names={names} />
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { EloCompareSettings, PluginInfo } from '../types';
-import { deleteTypeStorage } from '../storage';
+import { deleteTypeStorage, findCriterionStores } from '../storage';
+import { createTypeConfig } from '../helpers/type-config';
 
 interface TypeSelectorProps {
 	currentType: string;
@@ -49,30 +50,14 @@ export function TypeSelector({
 			return;
 		}
 
-		// Get default config from current type or default
+		// Create new type config, with the values of the current type or the default one
 		const typeConfigs = settings.typeConfigs || {};
-		const currentConfig = typeConfigs[currentType] || typeConfigs['default'] || {
-			name: 'default',
-			displayName: 'Default',
-			defaultFolder: '',
-			frontmatterProperty: 'rating',
-			includeSubfolders: false,
-		};
-
-		// Create display name from sanitized name
-		const displayName =
-			sanitized.charAt(0).toUpperCase() + sanitized.slice(1).replace(/-/g, ' ');
-
-		// Create new type config
 		const newTypeConfigs = {
 			...typeConfigs,
-			[sanitized]: {
-				name: sanitized,
-				displayName: displayName,
-				defaultFolder: currentConfig.defaultFolder,
-				frontmatterProperty: currentConfig.frontmatterProperty,
-				includeSubfolders: currentConfig.includeSubfolders,
-			},
+			[sanitized]: createTypeConfig(
+				sanitized,
+				typeConfigs[currentType] || typeConfigs['default']
+			),
 		};
 
 		await onSettingsUpdate({
@@ -92,8 +77,16 @@ export function TypeSelector({
 			return;
 		}
 
-		// Delete storage files for this type
-		await deleteTypeStorage(pluginInfo.vault, typeToDelete);
+		// Delete storage files for this type and its criteria, keeping the type if that fails
+		try {
+			const criterionStores = await findCriterionStores(pluginInfo.vault, typeToDelete);
+			for (const name of [typeToDelete, ...criterionStores]) {
+				await deleteTypeStorage(pluginInfo.vault, name);
+			}
+		} catch (e) {
+			alert('Failed to delete the data of this type. Check console for details.');
+			return;
+		}
 
 		// Remove from typeConfigs
 		const typeConfigs = { ...(settings.typeConfigs || {}) };
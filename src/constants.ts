@@ -5,7 +5,28 @@
 export const DEFAULT_RATING = 1000;
 export const DEFAULT_K_FACTOR = 32;
 
-// History and event limits
+// Frontmatter property listing the types a note takes part in (e.g. "compare: [books]")
+export const INCLUDE_PROPERTY = 'compare';
+
+// Dynamic K-factor defaults
+export const DEFAULT_PROVISIONAL_GAMES = 10;
+export const DEFAULT_PROVISIONAL_K_FACTOR = 64;
+
+// Pair selection defaults
+export const DEFAULT_EXPLORATION_RATE = 0.1;
+export const DEFAULT_UNCERTAINTY = 350; // Rating uncertainty of an item without games
+export const DEFAULT_PAIR_COOLDOWN = 5;
+export const DEFAULT_ITEM_COOLDOWN = 0;
+export const MAX_RECENT_ROUNDS = 100; // Upper bound for cooldown settings
+export const DEFAULT_TOP_K = 10;
+export const DEFAULT_TOP_K_STABLE_WINDOW = 20;
+
+// Default history display limits (the event log itself is never pruned)
 export const MAX_EVENTS = 200;
-export const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const MAX_AGE_DAYS = 30;
+
+// Number of events between rating snapshots
+export const SNAPSHOT_INTERVAL = 100;
 
+// Number of comparisons that can be undone
+export const MAX_UNDO = 20;
@@ -0,0 +1,20 @@
+import type { RatingEngine } from '../types';
+import { DEFAULT_RATING } from '../constants';
+import { eloUpdate } from '../elo-algorithm';
+
+/**
+ * Classic Elo with a fixed K-factor
+ */
+export const eloEngine: RatingEngine = {
+	id: 'elo',
+	name: 'Elo',
+	description: 'Classic Elo: simple and predictable, converges slowly with few games',
+	initialState: (stored) => ({ rating: stored?.rating ?? DEFAULT_RATING }),
+	update: (a, b, sA, { kFactorA, kFactorB }) => {
+		const [newA, newB] = eloUpdate(a.rating, b.rating, sA, kFactorA, kFactorB);
+		return [
+			{ ...a, rating: newA },
+			{ ...b, rating: newB },
+		] as const;
+	},
+};
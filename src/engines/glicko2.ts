@@ -0,0 +1,101 @@
+import type { Outcome, RatingEngine, RatingState } from '../types';
+import { DEFAULT_RATING } from '../constants';
+
+// Conversion factor between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+const DEFAULT_RD = 350;
+const MIN_RD = 30;
+const DEFAULT_VOLATILITY = 0.06;
+// System constant constraining volatility changes
+const TAU = 0.5;
+const EPSILON = 0.000001;
+
+function g(phi: number): number {
+	return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expected(mu: number, muOpponent: number, phiOpponent: number): number {
+	return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+/**
+ * Computes the new volatility with the Illinois algorithm (step 5 of the Glicko-2 paper)
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+	const a = Math.log(sigma * sigma);
+	const f = (x: number) => {
+		const ex = Math.exp(x);
+		const d = phi * phi + v + ex;
+		return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU);
+	};
+
+	let A = a;
+	let B: number;
+	if (delta * delta > phi * phi + v) {
+		B = Math.log(delta * delta - phi * phi - v);
+	} else {
+		let k = 1;
+		while (f(a - k * TAU) < 0) k++;
+		B = a - k * TAU;
+	}
+
+	let fA = f(A);
+	let fB = f(B);
+	while (Math.abs(B - A) > EPSILON) {
+		const C = A + ((A - B) * fA) / (fB - fA);
+		const fC = f(C);
+		if (fC * fB <= 0) {
+			A = B;
+			fA = fB;
+		} else {
+			fA = fA / 2;
+		}
+		B = C;
+		fB = fC;
+	}
+	return Math.exp(A / 2);
+}
+
+/**
+ * Updates one player after a single game (a rating period of one comparison)
+ */
+function updatePlayer(player: RatingState, opponent: RatingState, score: Outcome): RatingState {
+	const mu = (player.rating - DEFAULT_RATING) / SCALE;
+	const phi = (player.rd ?? DEFAULT_RD) / SCALE;
+	const sigma = player.volatility ?? DEFAULT_VOLATILITY;
+	const muJ = (opponent.rating - DEFAULT_RATING) / SCALE;
+	const phiJ = (opponent.rd ?? DEFAULT_RD) / SCALE;
+
+	const gJ = g(phiJ);
+	const E = expected(mu, muJ, phiJ);
+	const v = 1 / (gJ * gJ * E * (1 - E));
+	const delta = v * gJ * (score - E);
+
+	const newSigma = updateVolatility(phi, sigma, delta, v);
+	const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+	const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+	const newMu = mu + newPhi * newPhi * gJ * (score - E);
+
+	return {
+		rating: Math.round(newMu * SCALE + DEFAULT_RATING),
+		rd: Math.max(MIN_RD, Math.round(newPhi * SCALE * 10) / 10),
+		volatility: newSigma,
+	};
+}
+
+/**
+ * Glicko-2: tracks a rating deviation per item, so new items move quickly
+ * and settled items stay stable
+ */
+export const glicko2Engine: RatingEngine = {
+	id: 'glicko2',
+	name: 'Glicko-2',
+	description: 'Tracks uncertainty per item: new items move fast, settled items stay stable',
+	initialState: (stored) => ({
+		rating: stored?.rating ?? DEFAULT_RATING,
+		rd: stored?.rd ?? DEFAULT_RD,
+		volatility: stored?.volatility ?? DEFAULT_VOLATILITY,
+	}),
+	update: (a, b, sA) =>
+		[updatePlayer(a, b, sA), updatePlayer(b, a, (1 - sA) as Outcome)] as const,
+};
@@ -0,0 +1,17 @@
+import type { RatingEngine, RatingEngineId } from '../types';
+import { eloEngine } from './elo';
+import { glicko2Engine } from './glicko2';
+import { trueskillEngine } from './trueskill';
+
+export const RATING_ENGINES: Record<RatingEngineId, RatingEngine> = {
+	elo: eloEngine,
+	glicko2: glicko2Engine,
+	trueskill: trueskillEngine,
+};
+
+/**
+ * Gets the rating engine for an id, falling back to Elo
+ */
+export function getRatingEngine(id?: RatingEngineId): RatingEngine {
+	return (id && RATING_ENGINES[id]) || eloEngine;
+}
@@ -0,0 +1,85 @@
+import type { RatingEngine, RatingState } from '../types';
+import { DEFAULT_RATING } from '../constants';
+
+// Parameters scaled to the plugin's rating range (the original uses mu = 25, sigma = 25 / 3)
+const DEFAULT_SIGMA = 350;
+const BETA = DEFAULT_SIGMA / 2;
+const TAU = DEFAULT_SIGMA / 100;
+// Draw margin for an assumed draw probability of 10%
+const DRAW_MARGIN = 0.1777 * BETA;
+const MIN_SIGMA = 30;
+
+function pdf(x: number): number {
+	return Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26)
+ */
+function cdf(x: number): number {
+	const z = Math.abs(x) / Math.SQRT2;
+	const t = 1 / (1 + 0.3275911 * z);
+	const poly =
+		t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+	const erf = 1 - poly * Math.exp(-z * z);
+	return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mean and variance corrections for a decisive game (t = winner lead, e = draw margin)
+ */
+function winCorrections(t: number, e: number): [number, number] {
+	const denom = Math.max(cdf(t - e), 1e-12);
+	const v = pdf(t - e) / denom;
+	return [v, v * (v + t - e)];
+}
+
+/**
+ * Mean and variance corrections for a draw
+ */
+function drawCorrections(t: number, e: number): [number, number] {
+	const denom = Math.max(cdf(e - t) - cdf(-e - t), 1e-12);
+	const v = (pdf(-e - t) - pdf(e - t)) / denom;
+	const w = v * v + ((e - t) * pdf(e - t) + (e + t) * pdf(e + t)) / denom;
+	return [v, w];
+}
+
+/**
+ * Turns a variance into a stored deviation, keeping a minimum uncertainty
+ */
+function roundSigma(variance: number): number {
+	return Math.max(MIN_SIGMA, Math.round(Math.sqrt(variance) * 10) / 10);
+}
+
+/**
+ * A two-player TrueSkill-style update with draws
+ */
+export const trueskillEngine: RatingEngine = {
+	id: 'trueskill',
+	name: 'TrueSkill-style',
+	description: 'Bayesian skill estimate with uncertainty and explicit draw modelling',
+	initialState: (stored) => ({
+		rating: stored?.rating ?? DEFAULT_RATING,
+		rd: stored?.rd ?? DEFAULT_SIGMA,
+	}),
+	update: (a, b, sA) => {
+		// Winner first; for draws the order doesn't matter
+		const [winner, loser] = sA === 0 ? [b, a] : [a, b];
+		const varW = (winner.rd ?? DEFAULT_SIGMA) ** 2 + TAU * TAU;
+		const varL = (loser.rd ?? DEFAULT_SIGMA) ** 2 + TAU * TAU;
+		const c = Math.sqrt(2 * BETA * BETA + varW + varL);
+		const t = (winner.rating - loser.rating) / c;
+		const e = DRAW_MARGIN / c;
+		const [v, w] = sA === 0.5 ? drawCorrections(t, e) : winCorrections(t, e);
+
+		const newWinner: RatingState = {
+			rating: Math.round(winner.rating + (varW / c) * v),
+			rd: roundSigma(varW * (1 - (varW / (c * c)) * w)),
+		};
+		const newLoser: RatingState = {
+			rating: Math.round(loser.rating - (varL / c) * v),
+			rd: roundSigma(varL * (1 - (varL / (c * c)) * w)),
+		};
+		return sA === 0 ? ([newLoser, newWinner] as const) : ([newWinner, newLoser] as const);
+	},
+};
@@ -0,0 +1,143 @@
+import type { EloEvent } from '../types';
+import { DEFAULT_RATING } from '../constants';
+
+// Converts natural-log strengths to the Elo scale (400 points = 10:1 odds)
+const ELO_SCALE = 400 / Math.LN10;
+// Virtual draw of every item against an average opponent, so undefeated or winless
+// items get a finite rating instead of running off to infinity
+const PRIOR_GAMES = 1;
+const MAX_ITERATIONS = 10000;
+const TOLERANCE = 1e-9;
+// Above this many items the covariance is approximated by its diagonal
+const MAX_FULL_COVARIANCE = 200;
+
+export interface BradleyTerryRating {
+	rating: number; // maximum-likelihood strength on the Elo scale
+	se: number; // standard error on the Elo scale
+	games: number;
+}
+
+/**
+ * Inverts a symmetric positive definite matrix with Gauss-Jordan elimination
+ */
+function invert(matrix: number[][]): number[][] {
+	const n = matrix.length;
+	const a = matrix.map((row, i) => [
+		...row,
+		...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+	]);
+	for (let col = 0; col < n; col++) {
+		let pivot = col;
+		for (let row = col + 1; row < n; row++) {
+			if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+		}
+		[a[col], a[pivot]] = [a[pivot], a[col]];
+		const p = a[col][col];
+		for (let k = 0; k < 2 * n; k++) a[col][k] /= p;
+		for (let row = 0; row < n; row++) {
+			if (row === col || a[row][col] === 0) continue;
+			const f = a[row][col];
+			for (let k = 0; k < 2 * n; k++) a[row][k] -= f * a[col][k];
+		}
+	}
+	return a.map((row) => row.slice(n));
+}
+
+/**
+ * Fits Bradley-Terry strengths to all comparisons at once by maximum likelihood.
+ * Unlike sequential Elo the result doesn't depend on the order of the events.
+ * Draws count as half a win for each side. Standard errors come from the inverse
+ * of the Fisher information at the fitted strengths.
+ */
+export function fitBradleyTerry(events: EloEvent[]): Record<string, BradleyTerryRating> {
+	const ids: string[] = [];
+	const indexOf = new Map<string, number>();
+	const getIndex = (id: string) => {
+		let index = indexOf.get(id);
+		if (index === undefined) {
+			index = ids.length;
+			ids.push(id);
+			indexOf.set(id, index);
+		}
+		return index;
+	};
+
+	// Pair counts as a sparse adjacency list, and wins per item
+	const opponents: Array<Map<number, number>> = [];
+	const wins: number[] = [];
+	for (const event of events) {
+		if (event.a === event.b) continue;
+		const a = getIndex(event.a);
+		const b = getIndex(event.b);
+		while (opponents.length < ids.length) {
+			opponents.push(new Map());
+			wins.push(PRIOR_GAMES / 2);
+		}
+		opponents[a].set(b, (opponents[a].get(b) ?? 0) + 1);
+		opponents[b].set(a, (opponents[b].get(a) ?? 0) + 1);
+		wins[a] += event.s;
+		wins[b] += 1 - event.s;
+	}
+
+	const n = ids.length;
+	if (n === 0) return {};
+
+	// Minorization-maximization updates (Hunter 2004); the prior opponent has strength 1
+	const strength = new Array<number>(n).fill(1);
+	for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+		let maxChange = 0;
+		for (let i = 0; i < n; i++) {
+			let denominator = PRIOR_GAMES / (strength[i] + 1);
+			opponents[i].forEach((count, j) => {
+				denominator += count / (strength[i] + strength[j]);
+			});
+			const next = wins[i] / denominator;
+			maxChange = Math.max(maxChange, Math.abs(Math.log(next / strength[i])));
+			strength[i] = next;
+		}
+		if (maxChange < TOLERANCE) break;
+	}
+
+	// Fisher information of the log-strengths
+	const theta = strength.map(Math.log);
+	const variance = (i: number, j: number) => {
+		const p = 1 / (1 + Math.exp(theta[j] - theta[i]));
+		return p * (1 - p);
+	};
+	const diagonal = theta.map((t, i) => {
+		const p = 1 / (1 + Math.exp(-t));
+		let info = PRIOR_GAMES * p * (1 - p);
+		opponents[i].forEach((count, j) => (info += count * variance(i, j)));
+		return info;
+	});
+
+	let covarianceDiagonal: number[];
+	if (n <= MAX_FULL_COVARIANCE) {
+		const information = diagonal.map((info, i) => {
+			const row = new Array<number>(n).fill(0);
+			row[i] = info;
+			opponents[i].forEach((count, j) => (row[j] = -count * variance(i, j)));
+			return row;
+		});
+		// Variance relative to the average item, so the uncertainty of the overall level
+		// (only pinned down by the prior) doesn't inflate every standard error
+		const covariance = invert(information);
+		const rowMeans = covariance.map((row) => row.reduce((sum, v) => sum + v, 0) / n);
+		const mean = rowMeans.reduce((sum, v) => sum + v, 0) / n;
+		covarianceDiagonal = covariance.map((row, i) => row[i] - 2 * rowMeans[i] + mean);
+	} else {
+		covarianceDiagonal = diagonal.map((info) => 1 / info);
+	}
+
+	const result: Record<string, BradleyTerryRating> = {};
+	ids.forEach((id, i) => {
+		let games = 0;
+		opponents[i].forEach((count) => (games += count));
+		result[id] = {
+			rating: Math.round(DEFAULT_RATING + theta[i] * ELO_SCALE),
+			se: Math.round(Math.sqrt(covarianceDiagonal[i]) * ELO_SCALE),
+			games,
+		};
+	});
+	return result;
+}
@@ -0,0 +1,161 @@
+import type {
+	ComparisonTypeConfig,
+	Criterion,
+	Outcome,
+	RatingEngine,
+	SelectedFile,
+	StoreType,
+} from '../types';
+import { DEFAULT_RATING } from '../constants';
+import type { KFactorSchedule } from './k-factor';
+import { addSnapshotIfDue, getStoreSnapshots } from './event-log';
+import { createEloEvent, getRatingState, updateStoreRatings } from './elo-updates';
+
+// Selector value for asking every criterion about the same pair
+export const ALL_CRITERIA = '*';
+
+// Criterion ratings go to "<property>-<id>"; ids ending like the games and last keys
+// ("<property>-games", "<property>-last") would overwrite those
+const RESERVED_CRITERION_SUFFIXES = ['games', 'last'];
+
+export interface CombinedRankingRow {
+	item: SelectedFile;
+	rating: number; // Weighted mean of the criteria ratings
+	ratings: Record<string, number | undefined>; // criterion id -> rating, if compared
+	games: number; // Comparisons over all criteria
+}
+
+/**
+ * Gets the criteria that are asked and ranked, leaving out archived ones
+ */
+export function getActiveCriteria(config: ComparisonTypeConfig): Criterion[] {
+	return (config.criteria ?? []).filter((criterion) => !criterion.archived);
+}
+
+/**
+ * Gets the name a criterion's store is saved under. Type names can't contain dots,
+ * so these never clash with another type; without a criterion it's the type's own store.
+ */
+export function getCriterionStoreName(typeName: string, criterionId?: string): string {
+	return criterionId ? `${typeName}.${criterionId}` : typeName;
+}
+
+/**
+ * Gets the names of all stores of a type: its own and one per criterion, archived included
+ */
+export function getTypeStoreNames(config: ComparisonTypeConfig): string[] {
+	return [
+		config.name,
+		...(config.criteria ?? []).map((c) => getCriterionStoreName(config.name, c.id)),
+	];
+}
+
+/**
+ * Derives a criterion id from its name, unique among the type's criteria and never
+ * clashing with the other frontmatter keys of the type
+ */
+export function createCriterionId(name: string, criteria: Criterion[]): string {
+	const base =
+		name
+			.trim()
+			.toLowerCase()
+			.replace(/[^a-z0-9-_]/g, '-') || 'criterion';
+	let id = base;
+	const isTaken = (candidate: string) =>
+		criteria.some((criterion) => criterion.id === candidate) ||
+		RESERVED_CRITERION_SUFFIXES.some(
+			(suffix) => candidate === suffix || candidate.endsWith(`-${suffix}`)
+		);
+	for (let i = 2; isTaken(id); i++) {
+		id = `${base}-${i}`;
+	}
+	return id;
+}
+
+/**
+ * Gets the type configuration for a criterion's ratings: they are written to their own
+ * frontmatter property, "<property>-<criterion id>"
+ */
+export function getCriterionConfig(
+	config: ComparisonTypeConfig,
+	criterion?: Criterion
+): ComparisonTypeConfig {
+	if (!criterion) return config;
+	const property = config.frontmatterProperty || 'rating';
+	return { ...config, frontmatterProperty: `${property}-${criterion.id}` };
+}
+
+/**
+ * Records a comparison in a criterion's store, using that criterion's ratings of the items
+ */
+export function recordCriterionOutcome(
+	store: StoreType,
+	itemA: SelectedFile,
+	itemB: SelectedFile,
+	outcome: Outcome,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule
+): StoreType {
+	const withStored = (item: SelectedFile): SelectedFile => {
+		const stored = store.ratings[item.id];
+		return {
+			...item,
+			rating: stored?.rating ?? DEFAULT_RATING,
+			games: stored?.games ?? 0,
+			rd: stored?.rd,
+			volatility: stored?.volatility,
+		};
+	};
+	const a = withStored(itemA);
+	const b = withStored(itemB);
+	const [newStateA, newStateB] = engine.update(
+		getRatingState(a, engine),
+		getRatingState(b, engine),
+		outcome,
+		{ kFactorA: kSchedule(a.games, a.rating), kFactorB: kSchedule(b.games, b.rating) }
+	);
+
+	const events = [...store.events, createEloEvent(a, b, outcome)];
+	const ratings = updateStoreRatings(store, a, b, newStateA, newStateB);
+	return {
+		...store,
+		events,
+		ratings,
+		snapshots: addSnapshotIfDue(
+			getStoreSnapshots(store, engine, kSchedule),
+			events.length,
+			ratings
+		),
+	};
+}
+
+/**
+ * Ranks items by the weighted mean of their criteria ratings. Criteria an item
+ * hasn't been compared on count with the default rating.
+ */
+export function computeCombinedRanking(
+	items: SelectedFile[],
+	criteria: Criterion[],
+	stores: Record<string, StoreType>
+): CombinedRankingRow[] {
+	const weighted = criteria.filter((criterion) => (criterion.weight ?? 1) > 0);
+	const totalWeight = weighted.reduce((sum, criterion) => sum + (criterion.weight ?? 1), 0);
+
+	return items
+		.map((item) => {
+			const ratings: Record<string, number | undefined> = {};
+			let games = 0;
+			let sum = 0;
+			for (const criterion of criteria) {
+				const stored = stores[criterion.id]?.ratings[item.id];
+				ratings[criterion.id] = stored?.rating;
+				games += stored?.games ?? 0;
+			}
+			for (const criterion of weighted) {
+				sum += (criterion.weight ?? 1) * (ratings[criterion.id] ?? DEFAULT_RATING);
+			}
+			const rating = totalWeight > 0 ? Math.round(sum / totalWeight) : DEFAULT_RATING;
+			return { item, rating, ratings, games };
+		})
+		.sort((a, b) => b.rating - a.rating);
+}
@@ -1,34 +1,69 @@
-import type { SelectedFile, StoreType, EloEvent, HistoryType } from '../types';
-import { eloUpdate } from '../elo-algorithm';
+import type {
+	SelectedFile,
+	StoreType,
+	EloEvent,
+	HistoryType,
+	FileEloData,
+	Outcome,
+	RatingEngine,
+	RatingEngineOptions,
+	RatingState,
+} from '../types';
 import { DEFAULT_RATING } from '../constants';
-import { MAX_EVENTS, MAX_AGE_MS } from '../constants';
+
+/**
+ * Gets the outcome for item a from the index of the chosen item (null for a draw)
+ */
+export function outcomeForWinner(winnerIndex: number | null, aIndex: number): Outcome {
+	if (winnerIndex === null) return 0.5;
+	return winnerIndex === aIndex ? 1 : 0;
+}
 
 /**
  * Creates a new ELO event from a comparison
  */
-export function createEloEvent(
-	itemA: SelectedFile,
-	itemB: SelectedFile,
-	winnerIndex: number,
-	aIndex: number
-): EloEvent {
-	const aWins: 0 | 1 = winnerIndex === aIndex ? 1 : 0;
+export function createEloEvent(itemA: SelectedFile, itemB: SelectedFile, outcome: Outcome): EloEvent {
 	return {
 		t: Date.now(),
 		a: itemA.id,
 		b: itemB.id,
-		s: aWins,
+		s: outcome,
+	};
+}
+
+/**
+ * Creates a history entry for a comparison; draws keep a as "winner" and b as "loser"
+ */
+export function createHistoryEntry(
+	itemA: SelectedFile,
+	itemB: SelectedFile,
+	outcome: Outcome,
+	oldRatingA: number,
+	oldRatingB: number,
+	newRatingA: number,
+	newRatingB: number
+): HistoryType {
+	const aWon = outcome !== 0;
+	return {
+		winner: aWon ? itemA : itemB,
+		loser: aWon ? itemB : itemA,
+		winnerOldRating: aWon ? oldRatingA : oldRatingB,
+		winnerNewRating: aWon ? newRatingA : newRatingB,
+		loserOldRating: aWon ? oldRatingB : oldRatingA,
+		loserNewRating: aWon ? newRatingB : newRatingA,
+		draw: outcome === 0.5 ? true : undefined,
 	};
 }
 
 /**
- * Filters events to keep only recent ones
+ * Gets the rating state of an item for the given engine
  */
-export function filterRecentEvents(events: EloEvent[]): EloEvent[] {
-	const now = Date.now();
-	return events
-		.filter((e) => now - e.t < MAX_AGE_MS)
-		.slice(-MAX_EVENTS);
+export function getRatingState(item: RatingState, engine: RatingEngine): RatingState {
+	return engine.initialState({
+		rating: item.rating ?? DEFAULT_RATING,
+		rd: item.rd,
+		volatility: item.volatility,
+	});
 }
 
 /**
@@ -40,56 +75,53 @@ export function updateRatingsAfterComparison(
 	itemB: SelectedFile,
 	aIndex: number,
 	bIndex: number,
-	winnerIndex: number,
-	kFactor: number
+	outcome: Outcome,
+	engine: RatingEngine,
+	options: RatingEngineOptions
 ): {
 	updatedItems: SelectedFile[];
-	newRatingA: number;
-	newRatingB: number;
+	newStateA: RatingState;
+	newStateB: RatingState;
 	historyEntry: HistoryType;
 } {
+	const stateA = getRatingState(itemA, engine);
+	const stateB = getRatingState(itemB, engine);
+	const oldRatingA = stateA.rating;
+	const oldRatingB = stateB.rating;
+
 	// Calculate new ratings
-	const [newRatingA, newRatingB] = eloUpdate(
-		itemA.rating ?? DEFAULT_RATING,
-		itemB.rating ?? DEFAULT_RATING,
-		winnerIndex === aIndex ? 1 : 0,
-		kFactor
-	);
+	const [newStateA, newStateB] = engine.update(stateA, stateB, outcome, options);
+	const newRatingA = newStateA.rating;
+	const newRatingB = newStateB.rating;
 
 	const nowISO = new Date().toISOString().slice(0, 10);
 
 	// Update items
 	const updatedItems = items.map((it, idx) => {
 		if (idx === aIndex) {
-			return { ...it, rating: newRatingA, games: it.games + 1, last: nowISO };
+			return { ...it, ...newStateA, games: it.games + 1, last: nowISO };
 		}
 		if (idx === bIndex) {
-			return { ...it, rating: newRatingB, games: it.games + 1, last: nowISO };
+			return { ...it, ...newStateB, games: it.games + 1, last: nowISO };
 		}
 		return it;
 	});
 
 	// Create history entry
-	const winner = winnerIndex === aIndex ? itemA : itemB;
-	const loser = winnerIndex === aIndex ? itemB : itemA;
-	const winnerOldRating = winnerIndex === aIndex ? itemA.rating : itemB.rating;
-	const winnerNewRating = winnerIndex === aIndex ? newRatingA : newRatingB;
-	const loserOldRating = winnerIndex === aIndex ? itemB.rating : itemA.rating;
-	const loserNewRating = winnerIndex === aIndex ? newRatingB : newRatingA;
-
-	const historyEntry: HistoryType = {
-		winner,
-		loser,
-		winnerOldRating: winnerOldRating ?? DEFAULT_RATING,
-		winnerNewRating,
-		loserOldRating: loserOldRating ?? DEFAULT_RATING,
-		loserNewRating,
-	};
+	const historyEntry = createHistoryEntry(
+		itemA,
+		itemB,
+		outcome,
+		oldRatingA,
+		oldRatingB,
+		newRatingA,
+		newRatingB
+	);
 
 	return {
 		updatedItems,
-		newRatingA,
-		newRatingB,
+		newStateA,
+		newStateB,
 		historyEntry,
 	};
 }
@@ -101,21 +133,21 @@ export function updateStoreRatings(
 	store: StoreType,
 	itemA: SelectedFile,
 	itemB: SelectedFile,
-	newRatingA: number,
-	newRatingB: number
-): Record<string, { rating: number; games: number; pool: string; last: string }> {
+	newStateA: RatingState,
+	newStateB: RatingState
+): Record<string, FileEloData> {
 	const newRatings = { ...store.ratings };
 	const nowISO = new Date().toISOString().slice(0, 10);
 
 	newRatings[itemA.id] = {
-		rating: newRatingA,
+		...newStateA,
 		games: itemA.games + 1,
 		pool: itemA.pool,
 		last: nowISO,
 	};
 
 	newRatings[itemB.id] = {
-		rating: newRatingB,
+		...newStateB,
 		games: itemB.games + 1,
 		pool: itemB.pool,
 		last: nowISO,
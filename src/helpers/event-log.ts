@@ -0,0 +1,316 @@
+import type {
+	ComparisonTypeConfig,
+	EloEvent,
+	FileEloData,
+	RatingEngine,
+	RatingSnapshot,
+	RatingState,
+	StoreType,
+} from '../types';
+import { MAX_AGE_DAYS, MAX_EVENTS, SNAPSHOT_INTERVAL } from '../constants';
+import type { KFactorSchedule } from './k-factor';
+
+export type ReplayState = RatingState & { games: number; last?: string };
+
+// One comparison of a replay, with the baseline ratings set right before it
+export interface ReplayStep {
+	event: EloEvent;
+	seeded?: Record<string, FileEloData>;
+	before: [ReplayState, ReplayState];
+	after: [ReplayState, ReplayState];
+}
+
+// A replay's steps and where it ended, so that later comparisons can be replayed on top
+export interface ReplayTrace {
+	steps: ReplayStep[];
+	states: Map<string, ReplayState>;
+	events: EloEvent[];
+	baselines: RatingSnapshot[];
+	engine: RatingEngine;
+	kSchedule: KFactorSchedule;
+}
+
+export type ReplayCallback = (
+	index: number,
+	event: EloEvent,
+	before: [ReplayState, ReplayState],
+	after: [ReplayState, ReplayState]
+) => void;
+
+// Attempts at fitting a legacy baseline, and how close its replay must end to the stored ratings
+const FIT_ITERATIONS = 50;
+const FIT_TOLERANCE = 0.5;
+
+/**
+ * Adds a snapshot of the current ratings every SNAPSHOT_INTERVAL events
+ */
+export function addSnapshotIfDue(
+	snapshots: RatingSnapshot[],
+	eventCount: number,
+	ratings: Record<string, FileEloData>
+): RatingSnapshot[] {
+	if (eventCount === 0 || eventCount % SNAPSHOT_INTERVAL !== 0) return snapshots;
+	if (snapshots.some((s) => s.events === eventCount)) return snapshots;
+	return [...snapshots, { events: eventCount, t: Date.now(), ratings }];
+}
+
+/**
+ * Adds ratings the log doesn't explain as a baseline at the end of the log
+ */
+export function addBaselineSnapshot(
+	snapshots: RatingSnapshot[],
+	eventCount: number,
+	ratings: Record<string, FileEloData>
+): RatingSnapshot[] {
+	const existing = snapshots.find((s) => s.baseline && s.events === eventCount);
+	const baseline: RatingSnapshot = {
+		events: eventCount,
+		t: Date.now(),
+		ratings: { ...existing?.ratings, ...ratings },
+		baseline: true,
+	};
+	return [...snapshots.filter((s) => s !== existing), baseline];
+}
+
+/**
+ * Drops snapshots that cover more events than the log has (e.g. after an undo).
+ * Baselines are kept, moved back to the end of the log.
+ */
+export function trimSnapshots(snapshots: RatingSnapshot[], eventCount: number): RatingSnapshot[] {
+	return snapshots
+		.filter((s) => s.baseline || s.events <= eventCount)
+		.map((s) => (s.events > eventCount ? { ...s, events: eventCount } : s));
+}
+
+/**
+ * Gets the baselines among a store's snapshots
+ */
+export function getBaselines(snapshots: RatingSnapshot[]): RatingSnapshot[] {
+	return snapshots.filter((s) => s.baseline);
+}
+
+/**
+ * Finds the latest snapshot taken at or before the given event index.
+ * Baselines don't qualify, as they may only cover some items.
+ */
+export function findSnapshotBefore(
+	snapshots: RatingSnapshot[],
+	index: number
+): RatingSnapshot | undefined {
+	let best: RatingSnapshot | undefined;
+	for (const snapshot of snapshots) {
+		if (snapshot.baseline) continue;
+		if (snapshot.events <= index && (!best || snapshot.events > best.events)) {
+			best = snapshot;
+		}
+	}
+	return best;
+}
+
+/**
+ * Gets the index of the first event shown in the history, based on the type's retention
+ */
+export function getDisplayStartIndex(events: EloEvent[], config: ComparisonTypeConfig): number {
+	switch (config.historyRetention ?? 'count') {
+		case 'all':
+			return 0;
+		case 'age': {
+			const maxAgeMs = (config.historyRetentionDays ?? MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+			const cutoff = Date.now() - maxAgeMs;
+			const index = events.findIndex((e) => e.t >= cutoff);
+			return index === -1 ? events.length : index;
+		}
+		case 'count':
+			return Math.max(0, events.length - (config.historyRetentionCount ?? MAX_EVENTS));
+	}
+}
+
+/**
+ * Replays events through a rating engine, starting from a snapshot or from scratch.
+ * The ratings of the given baselines are set when the replay reaches them.
+ * `onEvent` is called with each event's index and the states before and after it.
+ */
+export function replayEvents(
+	events: EloEvent[],
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule,
+	start?: RatingSnapshot,
+	onEvent?: ReplayCallback,
+	baselines: RatingSnapshot[] = []
+): Map<string, ReplayState> {
+	const states = new Map<string, ReplayState>();
+	if (start) {
+		setStates(states, start.ratings, engine);
+	}
+	continueReplay(states, events, start?.events ?? 0, engine, kSchedule, onEvent, baselines);
+	return states;
+}
+
+function setStates(
+	states: Map<string, ReplayState>,
+	ratings: Record<string, FileEloData>,
+	engine: RatingEngine
+): void {
+	for (const [id, data] of Object.entries(ratings)) {
+		states.set(id, { ...engine.initialState(data), games: data.games, last: data.last });
+	}
+}
+
+/**
+ * Replays the events from `from` on, updating the given states in place
+ */
+function continueReplay(
+	states: Map<string, ReplayState>,
+	events: EloEvent[],
+	from: number,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule,
+	onEvent: ReplayCallback | undefined,
+	baselines: RatingSnapshot[]
+): void {
+	const applyBaselines = (index: number) =>
+		baselines
+			.filter((b) => b.events === index)
+			.forEach((b) => setStates(states, b.ratings, engine));
+	const getState = (id: string) => states.get(id) ?? { ...engine.initialState(), games: 0 };
+
+	for (let i = from; i < events.length; i++) {
+		applyBaselines(i);
+		const event = events[i];
+		const A = getState(event.a);
+		const B = getState(event.b);
+		const [newA, newB] = engine.update(A, B, event.s, {
+			kFactorA: kSchedule(A.games, A.rating),
+			kFactorB: kSchedule(B.games, B.rating),
+		});
+
+		const last = new Date(event.t).toISOString().slice(0, 10);
+		const afterA: ReplayState = { ...newA, games: A.games + 1, last };
+		const afterB: ReplayState = { ...newB, games: B.games + 1, last };
+		states.set(event.a, afterA);
+		states.set(event.b, afterB);
+		onEvent?.(i, event, [A, B], [afterA, afterB]);
+	}
+	applyBaselines(events.length);
+}
+
+/**
+ * Fits the baseline of a log written before snapshots existed, which may have been pruned:
+ * the ratings before its first event that, replayed through it, end at the stored ratings.
+ * There is none when the log holds every stored game.
+ */
+export function fitBaselineSnapshot(
+	events: EloEvent[],
+	ratings: Record<string, FileEloData>,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule
+): RatingSnapshot | undefined {
+	const logGames = new Map<string, number>();
+	for (const { a, b } of events) {
+		logGames.set(a, (logGames.get(a) ?? 0) + 1);
+		logGames.set(b, (logGames.get(b) ?? 0) + 1);
+	}
+	const start: Record<string, FileEloData> = {};
+	for (const [id, data] of Object.entries(ratings)) {
+		const pruned = data.games - (logGames.get(id) ?? 0);
+		if (pruned > 0) start[id] = { ...data, games: pruned };
+	}
+	if (Object.keys(start).length === 0) return undefined;
+
+	// Items with retained events start where their replay ends at the stored rating. Each
+	// attempt corrects by the miss, scaled by how far the end moved with the start last time.
+	const baseline: RatingSnapshot = { events: 0, t: Date.now(), ratings: start, baseline: true };
+	const fitted = Object.keys(start).filter((id) => logGames.has(id));
+	const previous = new Map<string, { start: number; end: number }>();
+	for (let attempt = 0; attempt < FIT_ITERATIONS && fitted.length > 0; attempt++) {
+		const states = replayEvents(events, engine, kSchedule, undefined, undefined, [baseline]);
+		let worst = 0;
+		for (const id of fitted) {
+			const from = start[id].rating;
+			const end = states.get(id)?.rating ?? from;
+			const miss = ratings[id].rating - end;
+			worst = Math.max(worst, Math.abs(miss));
+			const last = previous.get(id);
+			const slope = last && last.start !== from ? (end - last.end) / (from - last.start) : 1;
+			previous.set(id, { start: from, end });
+			start[id] = { ...start[id], rating: from + miss / Math.min(1, Math.max(0.1, slope)) };
+		}
+		if (worst < FIT_TOLERANCE) break;
+	}
+	return baseline;
+}
+
+/**
+ * Gets the snapshots of a store. A log written before snapshots existed has none saved,
+ * so its baseline is fitted.
+ */
+export function getStoreSnapshots(
+	store: StoreType,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule
+): RatingSnapshot[] {
+	if (store.snapshots) return store.snapshots;
+	const baseline = fitBaselineSnapshot(store.events, store.ratings, engine, kSchedule);
+	return baseline ? [baseline] : [];
+}
+
+/**
+ * Replays a store's event log from the latest snapshot before `from`, applying its baselines
+ */
+export function replayStore(
+	store: StoreType,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule,
+	from = 0,
+	onEvent?: ReplayCallback
+): Map<string, ReplayState> {
+	const snapshots = getStoreSnapshots(store, engine, kSchedule);
+	const start = findSnapshotBefore(snapshots, from);
+	return replayEvents(store.events, engine, kSchedule, start, onEvent, getBaselines(snapshots));
+}
+
+/**
+ * Replays a store's complete log, for the views that follow the ratings comparison by
+ * comparison. Given the trace of an earlier copy of the store, only the comparisons added
+ * since are replayed.
+ */
+export function traceReplay(
+	store: StoreType,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule,
+	previous?: ReplayTrace
+): ReplayTrace {
+	const baselines = getBaselines(getStoreSnapshots(store, engine, kSchedule));
+	const reuse = previous && canExtendTrace(previous, store.events, baselines, engine, kSchedule);
+	const steps: ReplayStep[] = reuse ? [...previous.steps] : [];
+	const states = reuse ? new Map(previous.states) : new Map<string, ReplayState>();
+	const onEvent: ReplayCallback = (index, event, before, after) => {
+		const step: ReplayStep = { event, before, after };
+		const seeds = baselines.filter((b) => b.events === index);
+		if (seeds.length > 0) {
+			step.seeded = Object.assign({}, ...seeds.map((b) => b.ratings));
+		}
+		steps.push(step);
+	};
+	const from = reuse ? previous.events.length : 0;
+	continueReplay(states, store.events, from, engine, kSchedule, onEvent, baselines);
+	return { steps, states, events: store.events, baselines, engine, kSchedule };
+}
+
+// A trace can be extended when the log only grew and the baselines are unchanged
+function canExtendTrace(
+	trace: ReplayTrace,
+	events: EloEvent[],
+	baselines: RatingSnapshot[],
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule
+): boolean {
+	return (
+		trace.engine === engine &&
+		trace.kSchedule === kSchedule &&
+		trace.events.length <= events.length &&
+		trace.events.every((event, i) => events[i] === event) &&
+		trace.baselines.length === baselines.length &&
+		trace.baselines.every((baseline, i) => baselines[i] === baseline)
+	);
+}
@@ -0,0 +1,160 @@
+import { TFile, Vault } from 'obsidian';
+import type { ComparisonTypeConfig, EloEvent } from '../types';
+import { getRatingEngine } from '../engines';
+import { LEADERBOARD_COLUMNS } from './leaderboard';
+import type { LeaderboardColumn, LeaderboardEntry } from './leaderboard';
+
+export type ExportData = 'leaderboard' | 'events';
+export type ExportFormat = 'csv' | 'markdown' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string }> = {
+	csv: { name: 'CSV', extension: 'csv' },
+	markdown: { name: 'Markdown table', extension: 'md' },
+	json: { name: 'JSON', extension: 'json' },
+};
+
+const LEADERBOARD_EXPORT_COLUMNS: LeaderboardColumn[] = [
+	'rank',
+	'name',
+	'rating',
+	'games',
+	'last',
+	'wins',
+	'losses',
+	'draws',
+	'provisional',
+];
+
+type Table = { headers: string[]; rows: Array<Array<string | number | boolean>> };
+
+/**
+ * Describes the comparison type and the export, so the file can be understood on its own
+ */
+function getExportMetadata(config: ComparisonTypeConfig, data: ExportData) {
+	return {
+		exportedAt: new Date().toISOString(),
+		data,
+		type: config.name,
+		displayName: config.displayName,
+		ratingEngine: getRatingEngine(config.ratingEngine).name,
+		config,
+	};
+}
+
+/**
+ * Gets the display name of an item id: the note's name, or the id if the note is gone
+ */
+function resolveName(vault: Vault, id: string): string {
+	const file = vault.getAbstractFileByPath(id);
+	return file instanceof TFile ? file.basename : id.replace(/\.md$/, '');
+}
+
+/**
+ * Quotes a CSV field if needed
+ */
+function escapeCsv(value: string | number | boolean): string {
+	const text = String(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes a Markdown table cell
+ */
+function escapeMarkdown(value: string | number | boolean): string {
+	return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Formats the metadata as `key: value` lines with JSON values, which are also valid YAML
+ */
+function formatMetadataLines(metadata: Record<string, unknown>): string[] {
+	return Object.entries(metadata).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Serializes a table with its metadata. CSV gets the metadata as leading `#` comment
+ * lines, Markdown as frontmatter.
+ */
+function formatTable(
+	table: Table,
+	records: Array<Record<string, unknown>>,
+	metadata: Record<string, unknown>,
+	format: ExportFormat
+): string {
+	switch (format) {
+		case 'json':
+			return JSON.stringify({ ...metadata, records }, null, 2);
+		case 'csv':
+			return [
+				...formatMetadataLines(metadata).map((line) => `# ${line}`),
+				table.headers.map(escapeCsv).join(','),
+				...table.rows.map((row) => row.map(escapeCsv).join(',')),
+			].join('\n');
+		case 'markdown':
+			return [
+				'---',
+				...formatMetadataLines(metadata),
+				'---',
+				'',
+				`| ${table.headers.map(escapeMarkdown).join(' | ')} |`,
+				`| ${table.headers.map(() => '---').join(' | ')} |`,
+				...table.rows.map((row) => `| ${row.map(escapeMarkdown).join(' | ')} |`),
+			].join('\n');
+	}
+}
+
+/**
+ * Exports the leaderboard of a type
+ */
+export function exportLeaderboard(
+	entries: LeaderboardEntry[],
+	config: ComparisonTypeConfig,
+	format: ExportFormat
+): string {
+	const columns = LEADERBOARD_EXPORT_COLUMNS;
+	const table: Table = {
+		headers: [...columns.map((c) => LEADERBOARD_COLUMNS[c].label), 'Path'],
+		rows: entries.map((entry) => [
+			...columns.map((c) => LEADERBOARD_COLUMNS[c].value(entry)),
+			entry.id,
+		]),
+	};
+	const records = entries.map((entry) => ({
+		rank: entry.rank,
+		name: entry.name,
+		path: entry.id,
+		rating: entry.rating,
+		games: entry.games,
+		last: entry.last ?? null,
+		wins: entry.wins,
+		losses: entry.losses,
+		draws: entry.draws,
+		provisional: entry.provisional,
+	}));
+	return formatTable(table, records, getExportMetadata(config, 'leaderboard'), format);
+}
+
+/**
+ * Exports the raw event log of a type with note names and ISO timestamps
+ */
+export function exportEvents(
+	vault: Vault,
+	events: EloEvent[],
+	config: ComparisonTypeConfig,
+	format: ExportFormat
+): string {
+	const records = events.map((event) => ({
+		time: new Date(event.t).toISOString(),
+		a: resolveName(vault, event.a),
+		b: resolveName(vault, event.b),
+		result: event.s === 1 ? 'a' : event.s === 0 ? 'b' : 'draw',
+		score: event.s,
+		pathA: event.a,
+		pathB: event.b,
+	}));
+	const table: Table = {
+		headers: ['Time', 'A', 'B', 'Result', 'Score A', 'Path A', 'Path B'],
+		rows: records.map((r) => [r.time, r.a, r.b, r.result, r.score, r.pathA, r.pathB]),
+	};
+	return formatTable(table, records, getExportMetadata(config, 'events'), format);
+}
@@ -1,6 +1,6 @@
-import { TFile, MetadataCache } from 'obsidian';
-import type { SelectedFile, EloCompareSettings, PluginInfo } from '../types';
-import { DEFAULT_RATING } from '../constants';
+import { TFile, MetadataCache, getAllTags } from 'obsidian';
+import type { SelectedFile, ComparisonTypeConfig, FilterCondition, FilterGroup } from '../types';
+import { DEFAULT_RATING, INCLUDE_PROPERTY } from '../constants';
 
 /**
  * Gets file information including frontmatter
@@ -32,19 +32,129 @@ function isFileInFolder(
 	return !relative.includes('/');
 }
 
+/**
+ * Normalizes a frontmatter value to a list of comparable strings
+ */
+function toStringValues(value: unknown): string[] {
+	if (value === null || value === undefined) return [];
+	if (Array.isArray(value)) return value.flatMap(toStringValues);
+	return [String(value).trim()];
+}
+
+/**
+ * Normalizes a tag for comparison (no leading #, lowercase)
+ */
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Evaluates a single filter condition against a file and its cached metadata
+ */
+export function matchesFilter(
+	file: TFile,
+	condition: FilterCondition,
+	metadata: MetadataCache
+): boolean {
+	const cache = metadata.getFileCache(file);
+	const frontmatter = cache?.frontmatter ?? null;
+
+	switch (condition.type) {
+		case 'group': {
+			// Empty groups don't restrict anything
+			if (condition.conditions.length === 0) return true;
+			return condition.mode === 'and'
+				? condition.conditions.every((c) => matchesFilter(file, c, metadata))
+				: condition.conditions.some((c) => matchesFilter(file, c, metadata));
+		}
+		case 'property-exists': {
+			if (!frontmatter || !condition.property) return false;
+			return toStringValues(frontmatter[condition.property]).some((v) => v !== '');
+		}
+		case 'property-equals': {
+			if (!frontmatter || !condition.property) return false;
+			return toStringValues(frontmatter[condition.property]).includes(
+				condition.value.trim()
+			);
+		}
+		case 'property-in': {
+			if (!frontmatter || !condition.property) return false;
+			const allowed = condition.values.map((v) => v.trim());
+			return toStringValues(frontmatter[condition.property]).some((v) =>
+				allowed.includes(v)
+			);
+		}
+		case 'tag': {
+			const wanted = normalizeTag(condition.tag);
+			if (!wanted || !cache) return false;
+			// Parent tags match their nested tags (e.g. "book" matches "#book/fiction")
+			return (getAllTags(cache) ?? [])
+				.map(normalizeTag)
+				.some((tag) => tag === wanted || tag.startsWith(wanted + '/'));
+		}
+		case 'name-regex': {
+			try {
+				return new RegExp(condition.pattern).test(file.basename);
+			} catch (e) {
+				return false;
+			}
+		}
+	}
+}
+
+/**
+ * Creates the inclusion filter of a new type: notes that list it under INCLUDE_PROPERTY.
+ * This is kept apart from the rating property, so rating a note doesn't add it to the pool.
+ */
+export function createDefaultFilter(typeName: string): FilterGroup {
+	return {
+		type: 'group',
+		mode: 'and',
+		conditions: [{ type: 'property-equals', property: INCLUDE_PROPERTY, value: typeName }],
+	};
+}
+
+/**
+ * Moves the conditions of a filter's top level that include notes listing the old type name
+ * to the new one
+ */
+export function renameFilterType(filter: FilterGroup, from: string, to: string): void {
+	for (const condition of filter.conditions) {
+		if (
+			condition.type === 'property-equals' &&
+			condition.property === INCLUDE_PROPERTY &&
+			condition.value === from
+		) {
+			condition.value = to;
+		}
+	}
+}
+
+/**
+ * Checks if a file belongs to the pool of a comparison type (folder and inclusion filter)
+ */
+export function isFileInPool(
+	file: TFile,
+	typeConfig: ComparisonTypeConfig,
+	metadata: MetadataCache
+): boolean {
+	if (!isFileInFolder(file, typeConfig.defaultFolder, typeConfig.includeSubfolders ?? false)) {
+		return false;
+	}
+	return !typeConfig.filter || matchesFilter(file, typeConfig.filter, metadata);
+}
+
 /**
  * Converts Obsidian files to SelectedFile objects with default ratings
  */
 export async function convertFilesToSelectedFiles(
 	files: TFile[],
-	settings: EloCompareSettings,
+	typeConfig: ComparisonTypeConfig,
 	metadata: MetadataCache,
 	defaultPool: string
 ): Promise<SelectedFile[]> {
-	// Filter files based on folder settings
-	const candidates = files.filter((file) =>
-		isFileInFolder(file, settings.defaultFolder, settings.includeSubfoldersByDefault ?? false)
-	);
+	// Filter files based on folder and inclusion filter settings
+	const candidates = files.filter((file) => isFileInPool(file, typeConfig, metadata));
 
 	// Convert to SelectedFile objects
 	const promises = candidates.map(async (file) => {
@@ -0,0 +1,129 @@
+import type { StoreType, FileEloData } from '../types';
+import { getPairKey } from './pair-selection';
+import { renameTournamentIds } from './tournament';
+
+/**
+ * Checks if an id is the given path or lies inside it (for folder renames and deletions)
+ */
+function isAffected(id: string, path: string): boolean {
+	return id === path || id.startsWith(path + '/');
+}
+
+/**
+ * Copies rating data without its deleted mark
+ */
+function withoutDeletedMark(data: FileEloData): FileEloData {
+	const restored = { ...data };
+	delete restored.deleted;
+	return restored;
+}
+
+/**
+ * Rewrites ids in ratings and events after a file or folder was renamed or moved.
+ * A rating already stored under a new path (e.g. of a deleted note) is only kept if it has
+ * more games. Returns null if nothing in the store referenced the old path.
+ */
+export function renameIdsInStore(
+	store: StoreType,
+	oldPath: string,
+	newPath: string
+): StoreType | null {
+	const rewrite = (id: string) =>
+		isAffected(id, oldPath) ? newPath + id.slice(oldPath.length) : id;
+
+	let changed = false;
+	const ratings: Record<string, FileEloData> = {};
+	const moved: Array<[string, FileEloData]> = [];
+	for (const [id, data] of Object.entries(store.ratings)) {
+		const newId = rewrite(id);
+		if (newId === id) {
+			ratings[id] = data;
+		} else {
+			moved.push([newId, data]);
+			changed = true;
+		}
+	}
+	// The moved notes exist, so whichever entry is kept is no longer deleted
+	for (const [newId, data] of moved) {
+		const existing = ratings[newId];
+		const kept = existing && existing.games > data.games ? existing : data;
+		ratings[newId] = withoutDeletedMark(kept);
+	}
+
+	const events = store.events.map((event) => {
+		const a = rewrite(event.a);
+		const b = rewrite(event.b);
+		if (a === event.a && b === event.b) return event;
+		changed = true;
+		return { ...event, a, b };
+	});
+
+	const snapshots = store.snapshots?.map((snapshot) => {
+		const snapshotRatings: Record<string, FileEloData> = {};
+		for (const [id, data] of Object.entries(snapshot.ratings)) {
+			snapshotRatings[rewrite(id)] = data;
+		}
+		return { ...snapshot, ratings: snapshotRatings };
+	});
+
+	let skipped = store.skipped;
+	if (skipped) {
+		skipped = {};
+		for (const [key, data] of Object.entries(store.skipped ?? {})) {
+			const [a, b] = key.split('|');
+			const newKey = getPairKey(rewrite(a), rewrite(b));
+			if (newKey !== key) changed = true;
+			skipped[newKey] = data;
+		}
+	}
+
+	let tournament = store.tournament;
+	if (tournament) {
+		tournament = renameTournamentIds(tournament, rewrite);
+		if (tournament.participants.some((id, i) => id !== store.tournament?.participants[i])) {
+			changed = true;
+		}
+	}
+
+	return changed ? { ...store, events, ratings, snapshots, skipped, tournament } : null;
+}
+
+/**
+ * Marks the ratings of a deleted file or folder as deleted instead of dropping them.
+ * Returns null if nothing in the store referenced the path.
+ */
+export function markDeletedInStore(store: StoreType, path: string): StoreType | null {
+	const nowISO = new Date().toISOString().slice(0, 10);
+
+	let changed = false;
+	const ratings: Record<string, FileEloData> = {};
+	for (const [id, data] of Object.entries(store.ratings)) {
+		if (isAffected(id, path) && !data.deleted) {
+			ratings[id] = { ...data, deleted: nowISO };
+			changed = true;
+		} else {
+			ratings[id] = data;
+		}
+	}
+
+	return changed ? { ...store, ratings } : null;
+}
+
+/**
+ * Clears the deleted mark of the ratings of a file or folder that was created again
+ * (e.g. restored from the trash). Returns null if no deleted rating is at the path.
+ */
+export function clearDeletedInStore(store: StoreType, path: string): StoreType | null {
+	let changed = false;
+	const ratings: Record<string, FileEloData> = {};
+	for (const [id, data] of Object.entries(store.ratings)) {
+		if (isAffected(id, path) && data.deleted) {
+			ratings[id] = withoutDeletedMark(data);
+			changed = true;
+		} else {
+			ratings[id] = data;
+		}
+	}
+
+	return changed ? { ...store, ratings } : null;
+}
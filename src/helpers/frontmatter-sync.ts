@@ -0,0 +1,97 @@
+import { App, TFile } from 'obsidian';
+import type { ComparisonTypeConfig, FileEloData } from '../types';
+
+/**
+ * Gets the frontmatter keys used for a comparison type
+ */
+export function getFrontmatterKeys(config: ComparisonTypeConfig) {
+	const rating = config.frontmatterProperty || 'rating';
+	return {
+		rating,
+		games: `${rating}-games`,
+		last: `${rating}-last`,
+	};
+}
+
+/**
+ * Writes the rating data of a single note into its frontmatter
+ */
+export async function writeRatingToFrontmatter(
+	app: App,
+	file: TFile,
+	data: FileEloData,
+	config: ComparisonTypeConfig
+): Promise<void> {
+	const keys = getFrontmatterKeys(config);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		frontmatter[keys.rating] = data.rating;
+		if (config.writeGamesToFrontmatter) {
+			frontmatter[keys.games] = data.games;
+		}
+		if (config.writeLastToFrontmatter && data.last) {
+			frontmatter[keys.last] = data.last;
+		}
+	});
+}
+
+/**
+ * Removes the rating properties from the frontmatter of a single note
+ */
+export async function clearRatingFromFrontmatter(
+	app: App,
+	file: TFile,
+	config: ComparisonTypeConfig
+): Promise<void> {
+	const keys = getFrontmatterKeys(config);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		delete frontmatter[keys.rating];
+		delete frontmatter[keys.games];
+		delete frontmatter[keys.last];
+	});
+}
+
+/**
+ * Writes all stored ratings into the frontmatter of their notes
+ * Returns the number of notes that were updated
+ */
+export async function syncRatingsToFrontmatter(
+	app: App,
+	ratings: Record<string, FileEloData>,
+	config: ComparisonTypeConfig
+): Promise<number> {
+	let updated = 0;
+	for (const [path, data] of Object.entries(ratings)) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) continue;
+		try {
+			await writeRatingToFrontmatter(app, file, data, config);
+			updated++;
+		} catch (e) {
+			console.error('[EloCompare] Failed to write frontmatter:', path, e);
+		}
+	}
+	return updated;
+}
+
+/**
+ * Removes the rating properties from the frontmatter of all rated notes
+ * Returns the number of notes that were updated
+ */
+export async function removeRatingsFromFrontmatter(
+	app: App,
+	ratings: Record<string, FileEloData>,
+	config: ComparisonTypeConfig
+): Promise<number> {
+	let updated = 0;
+	for (const path of Object.keys(ratings)) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) continue;
+		try {
+			await clearRatingFromFrontmatter(app, file, config);
+			updated++;
+		} catch (e) {
+			console.error('[EloCompare] Failed to clean frontmatter:', path, e);
+		}
+	}
+	return updated;
+}
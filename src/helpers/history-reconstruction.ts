@@ -1,15 +1,21 @@
-import type { SelectedFile, StoreType, HistoryType, EloEvent } from '../types';
-import { DEFAULT_RATING } from '../constants';
-import { eloUpdate } from '../elo-algorithm';
+import type { SelectedFile, StoreType, HistoryType, RatingEngine } from '../types';
 import { DEFAULT_K_FACTOR } from '../constants';
+import { eloEngine } from '../engines/elo';
+import { createHistoryEntry } from './elo-updates';
+import type { KFactorSchedule } from './k-factor';
+import { replayStore } from './event-log';
 
 /**
- * Reconstructs history from events by replaying them step by step
+ * Reconstructs history (newest first) from events by replaying them step by step.
+ * Replay starts at the latest snapshot before `startIndex`; only events from
+ * `startIndex` on are turned into history entries.
  */
 export function reconstructHistoryFromEvents(
 	selectedFiles: SelectedFile[],
 	store: StoreType,
-	kFactor: number = DEFAULT_K_FACTOR
+	kSchedule: KFactorSchedule = () => DEFAULT_K_FACTOR,
+	engine: RatingEngine = eloEngine,
+	startIndex = 0
 ): HistoryType[] {
 	if (!selectedFiles || selectedFiles.length === 0) {
 		return [];
@@ -22,63 +28,28 @@ export function reconstructHistoryFromEvents(
 	// Create a map of files by id for quick lookup
 	const filesById = new Map(selectedFiles.map((f) => [f.id, f]));
 
-	// Initialize ratings from store or defaults
-	const byId = new Map<string, SelectedFile & { games: number }>();
-	for (const file of selectedFiles) {
-		const stored = store.ratings[file.id];
-		byId.set(file.id, {
-			...file,
-			rating: stored?.rating ?? DEFAULT_RATING,
-			games: stored?.games ?? 0,
-		});
-	}
-
 	const historyEntries: HistoryType[] = [];
 
 	// Replay events and build history
-	for (const event of store.events) {
+	replayStore(store, engine, kSchedule, startIndex, (index, event, before, after) => {
+		if (index < startIndex) return;
+
 		const fileA = filesById.get(event.a);
 		const fileB = filesById.get(event.b);
-		if (!fileA || !fileB) continue; // Skip events outside the current pool
-
-		const A = byId.get(event.a);
-		const B = byId.get(event.b);
-		if (!A || !B) continue;
-
-		// Record old ratings
-		const oldRatingA = A.rating ?? DEFAULT_RATING;
-		const oldRatingB = B.rating ?? DEFAULT_RATING;
-
-		// Apply ELO update
-		const [newRatingA, newRatingB] = eloUpdate(oldRatingA, oldRatingB, event.s, kFactor);
-
-		// Determine winner and loser (skip draws)
-		const winner = event.s === 1 ? fileA : event.s === 0 ? fileB : null;
-		const loser = event.s === 1 ? fileB : event.s === 0 ? fileA : null;
-
-		if (winner && loser) {
-			const winnerOldRating = event.s === 1 ? oldRatingA : oldRatingB;
-			const winnerNewRating = event.s === 1 ? newRatingA : newRatingB;
-			const loserOldRating = event.s === 1 ? oldRatingB : oldRatingA;
-			const loserNewRating = event.s === 1 ? newRatingB : newRatingA;
-
-			historyEntries.push({
-				winner,
-				loser,
-				winnerOldRating,
-				winnerNewRating,
-				loserOldRating,
-				loserNewRating,
-			});
-		}
-
-		// Update ratings for next iteration
-		A.rating = newRatingA;
-		B.rating = newRatingB;
-		A.games += 1;
-		B.games += 1;
-	}
-
-	return historyEntries;
+		if (!fileA || !fileB) return; // Skip events outside the current pool
+
+		historyEntries.push(
+			createHistoryEntry(
+				fileA,
+				fileB,
+				event.s,
+				before[0].rating,
+				before[1].rating,
+				after[0].rating,
+				after[1].rating
+			)
+		);
+	});
+
+	return historyEntries.reverse();
 }
-
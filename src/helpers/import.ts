@@ -0,0 +1,323 @@
+import { MetadataCache, TFile } from 'obsidian';
+import type { EloEvent, FileEloData, Outcome, StoreType } from '../types';
+import { mergeStores } from '../storage';
+import { addBaselineSnapshot } from './event-log';
+
+export type ImportKind = 'ratings' | 'results';
+export type MatchMode = 'path' | 'basename' | 'frontmatter';
+
+export type ImportRow = Record<string, string>;
+
+export interface RatingRow {
+	line: number;
+	item: string;
+	rating: number;
+	games?: number;
+}
+
+export interface ResultRow {
+	line: number;
+	winner: string;
+	loser: string;
+	draw: boolean;
+	t?: number;
+}
+
+export interface UnmatchedRow {
+	line: number;
+	value: string;
+	reason: string;
+}
+
+export interface ImportPreview {
+	kind: ImportKind;
+	ratings: Array<{ row: RatingRow; file: TFile }>;
+	results: Array<{ row: ResultRow; winner: TFile; loser: TFile }>;
+	unmatched: UnmatchedRow[];
+}
+
+// Accepted column names, lowercase
+const ITEM_COLUMNS = ['path', 'name', 'note', 'item', 'title'];
+// Paths come first, so exports with both paths and names match exactly
+const WINNER_COLUMNS = ['winner', 'patha', 'path a', 'a'];
+const LOSER_COLUMNS = ['loser', 'pathb', 'path b', 'b'];
+const DATE_COLUMNS = ['date', 'time', 'timestamp'];
+
+/**
+ * Splits CSV text into rows of fields, handling quoted fields with commas, quotes and newlines
+ */
+function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i];
+		if (quoted) {
+			if (c === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (c === '"') {
+				quoted = false;
+			} else {
+				field += c;
+			}
+		} else if (c === '"') {
+			quoted = true;
+		} else if (c === ',') {
+			row.push(field);
+			field = '';
+		} else if (c === '\n' || c === '\r') {
+			if (c === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += c;
+		}
+	}
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * Parses a CSV or JSON file into rows keyed by lowercase column name.
+ * CSV needs a header row; leading `#` comment lines (as in exports) are skipped.
+ * JSON can be an array of objects or an export with a `records` array.
+ */
+export function parseImportFile(content: string, fileName: string): ImportRow[] {
+	if (fileName.toLowerCase().endsWith('.json')) {
+		const data = JSON.parse(content);
+		const records: unknown = Array.isArray(data) ? data : data?.records;
+		if (!Array.isArray(records)) {
+			throw new Error('Expected an array of objects or an object with a "records" array');
+		}
+		return records.map((record) => {
+			const row: ImportRow = {};
+			for (const [key, value] of Object.entries(record ?? {})) {
+				if (value !== null && value !== undefined) row[key.toLowerCase()] = String(value);
+			}
+			return row;
+		});
+	}
+
+	const lines = parseCsv(content).filter((fields) => fields.some((f) => f.trim() !== ''));
+	// Comments only lead the file: the header itself may start with `#`, the rank column
+	while (lines.length > 0 && lines[0][0].startsWith('#') && lines[0][0].trim() !== '#') {
+		lines.shift();
+	}
+	if (lines.length === 0) return [];
+	const headers = lines[0].map((h) => h.trim().toLowerCase());
+	return lines.slice(1).map((fields) => {
+		const row: ImportRow = {};
+		headers.forEach((header, i) => {
+			if (fields[i] !== undefined) row[header] = fields[i].trim();
+		});
+		return row;
+	});
+}
+
+/**
+ * Gets the first non-empty value of a row among the given columns
+ */
+function getValue(row: ImportRow, columns: string[]): string | undefined {
+	for (const column of columns) {
+		if (row[column]) return row[column];
+	}
+	return undefined;
+}
+
+/**
+ * Detects whether the rows hold ratings or pairwise results
+ */
+export function detectImportKind(rows: ImportRow[]): ImportKind | null {
+	const first = rows[0];
+	if (!first) return null;
+	if (getValue(first, WINNER_COLUMNS) && getValue(first, LOSER_COLUMNS)) {
+		return 'results';
+	}
+	if (first.rating !== undefined && getValue(first, ITEM_COLUMNS)) {
+		return 'ratings';
+	}
+	return null;
+}
+
+/**
+ * Creates a function that finds the note for an imported value
+ */
+export function createNoteMatcher(
+	files: TFile[],
+	metadata: MetadataCache,
+	mode: MatchMode,
+	frontmatterKey: string
+): (value: string) => TFile | string {
+	const index = new Map<string, TFile[]>();
+	const add = (key: string, file: TFile) => {
+		const normalized = key.trim().toLowerCase();
+		if (!normalized) return;
+		index.set(normalized, [...(index.get(normalized) ?? []), file]);
+	};
+
+	for (const file of files) {
+		if (mode === 'path') {
+			add(file.path, file);
+			add(file.path.replace(/\.md$/, ''), file);
+		} else if (mode === 'basename') {
+			add(file.basename, file);
+		} else {
+			const value = metadata.getFileCache(file)?.frontmatter?.[frontmatterKey];
+			const values: unknown[] = Array.isArray(value) ? value : [value];
+			values
+				.filter((v) => v !== null && v !== undefined)
+				.forEach((v) => add(String(v), file));
+		}
+	}
+
+	// Returns the matching note, or the reason there is none
+	return (value) => {
+		// Paths also match by basename
+		const key =
+			mode === 'basename' ? (value.split('/').pop() ?? '').replace(/\.md$/, '') : value;
+		const matches = index.get(key.trim().toLowerCase()) ?? [];
+		if (matches.length === 1) return matches[0];
+		return matches.length === 0 ? 'No matching note' : `${matches.length} matching notes`;
+	};
+}
+
+/**
+ * Parses the outcome of a result row: a `draw`/`result` column marks draws,
+ * and exports with `result: b` swap the winner and loser
+ */
+function parseResultRow(row: ImportRow, line: number): ResultRow | UnmatchedRow {
+	let winner = getValue(row, WINNER_COLUMNS) ?? '';
+	let loser = getValue(row, LOSER_COLUMNS) ?? '';
+	if (!winner || !loser) {
+		return { line, value: winner || loser, reason: 'Missing winner or loser' };
+	}
+
+	const result = (row.result ?? '').toLowerCase();
+	const draw =
+		result === 'draw' || ['true', 'yes', '1'].includes((row.draw ?? '').toLowerCase());
+	if (result === 'b') {
+		[winner, loser] = [loser, winner];
+	}
+
+	const date = getValue(row, DATE_COLUMNS);
+	let t: number | undefined;
+	if (date) {
+		t = /^\d+$/.test(date) ? Number(date) : Date.parse(date);
+		if (!Number.isFinite(t)) {
+			return { line, value: date, reason: 'Invalid date' };
+		}
+	}
+	return { line, winner, loser, draw, t };
+}
+
+/**
+ * Matches the parsed rows to notes, collecting rows that can't be imported
+ */
+export function previewImport(
+	rows: ImportRow[],
+	kind: ImportKind,
+	match: (value: string) => TFile | string
+): ImportPreview {
+	const preview: ImportPreview = { kind, ratings: [], results: [], unmatched: [] };
+	rows.forEach((row, i) => {
+		// Rows count from 1, not counting the header
+		const line = i + 1;
+		if (kind === 'ratings') {
+			const item = getValue(row, ITEM_COLUMNS) ?? '';
+			const rating = parseFloat(row.rating ?? '');
+			if (!Number.isFinite(rating)) {
+				preview.unmatched.push({ line, value: item, reason: 'Invalid rating' });
+				return;
+			}
+			const file = match(item);
+			if (typeof file === 'string') {
+				preview.unmatched.push({ line, value: item, reason: file });
+				return;
+			}
+			const games = parseInt(row.games ?? '', 10);
+			preview.ratings.push({
+				row: { line, item, rating, games: Number.isFinite(games) ? games : undefined },
+				file,
+			});
+			return;
+		}
+
+		const parsed = parseResultRow(row, line);
+		if ('reason' in parsed) {
+			preview.unmatched.push(parsed);
+			return;
+		}
+		const winner = match(parsed.winner);
+		const loser = match(parsed.loser);
+		if (typeof winner === 'string' || typeof loser === 'string') {
+			preview.unmatched.push(
+				typeof winner === 'string'
+					? { line, value: parsed.winner, reason: winner }
+					: { line, value: parsed.loser, reason: loser as string }
+			);
+			return;
+		}
+		if (winner === loser) {
+			preview.unmatched.push({
+				line,
+				value: parsed.winner,
+				reason: 'Winner and loser are the same',
+			});
+			return;
+		}
+		preview.results.push({ row: parsed, winner, loser });
+	});
+	return preview;
+}
+
+/**
+ * Seeds the stored ratings of the matched notes with the imported ratings.
+ * Existing ratings are only replaced when `overwrite` is set. The seeds are kept as a
+ * baseline, so replays of the log start these notes from them.
+ */
+export function applyRatingsImport(
+	store: StoreType,
+	preview: ImportPreview,
+	pool: string,
+	overwrite: boolean
+): StoreType {
+	const ratings = { ...store.ratings };
+	const seeds: Record<string, FileEloData> = {};
+	for (const { row, file } of preview.ratings) {
+		const existing = ratings[file.path];
+		if (existing && !existing.deleted && !overwrite) continue;
+		const data: FileEloData = {
+			rating: Math.round(row.rating),
+			games: row.games ?? existing?.games ?? 0,
+			pool: existing?.pool ?? pool,
+		};
+		if (existing?.last) data.last = existing.last;
+		ratings[file.path] = data;
+		seeds[file.path] = data;
+	}
+	if (Object.keys(seeds).length === 0) return { ...store, ratings };
+	const snapshots = addBaselineSnapshot(store.snapshots ?? [], store.events.length, seeds);
+	return { ...store, ratings, snapshots };
+}
+
+/**
+ * Merges the matched results into the event log, in time order. Results without a date
+ * are added as of now. The ratings must be rebuilt afterwards.
+ */
+export function applyResultsImport(store: StoreType, preview: ImportPreview): StoreType {
+	const now = Date.now();
+	const events: EloEvent[] = preview.results.map(({ row, winner, loser }) => ({
+		t: row.t ?? now,
+		a: winner.path,
+		b: loser.path,
+		s: (row.draw ? 0.5 : 1) as Outcome,
+	}));
+	return mergeStores(store, { version: 1, events, ratings: {} });
+}
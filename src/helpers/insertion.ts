@@ -0,0 +1,123 @@
+import type { Outcome, SelectedFile } from '../types';
+
+export interface InsertionState {
+	id: string; // Item being placed
+	ranked: string[]; // Ids of the other items when the insertion started, highest rating first
+	low: number; // The item belongs somewhere in ranked positions [low, high]
+	high: number;
+	opponent: number; // Position in `ranked` of the current opponent
+	comparisons: number;
+	startRating: number;
+}
+
+export interface InsertionSummary {
+	name: string;
+	rank: number; // 1-based position among all items by the item's rating
+	searchRank: number; // 1-based position the comparisons placed the item at
+	total: number;
+	comparisons: number;
+	startRating: number;
+	rating: number;
+	above?: string; // Name of the item rated directly above
+	below?: string; // Name of the item rated directly below
+}
+
+/**
+ * Checks whether the search has narrowed down to a single position
+ */
+export function isInsertionDone(state: InsertionState): boolean {
+	return state.low >= state.high;
+}
+
+/**
+ * Checks whether a pair is the item being placed against its current opponent
+ */
+export function isInsertionPair(state: InsertionState, a: string, b: string): boolean {
+	const opponent = state.ranked[state.opponent];
+	return (a === state.id && b === opponent) || (b === state.id && a === opponent);
+}
+
+/**
+ * Starts placing an item: the other items are ranked by their current rating
+ * and the first opponent is the middle one
+ */
+export function startInsertion(items: SelectedFile[], id: string): InsertionState {
+	const item = items.find((i) => i.id === id);
+	const ranked = items
+		.filter((i) => i.id !== id)
+		.sort((a, b) => b.rating - a.rating)
+		.map((i) => i.id);
+	return {
+		id,
+		ranked,
+		low: 0,
+		high: ranked.length,
+		opponent: Math.floor(ranked.length / 2),
+		comparisons: 0,
+		startRating: item?.rating ?? 0,
+	};
+}
+
+/**
+ * Narrows the search with the result of the item against the current opponent:
+ * a win places it above the opponent, a loss below, a draw right at the opponent's position
+ */
+export function advanceInsertion(state: InsertionState, score: Outcome): InsertionState {
+	let { low, high } = state;
+	if (score === 1) {
+		high = state.opponent;
+	} else if (score === 0) {
+		low = state.opponent + 1;
+	} else {
+		low = high = state.opponent;
+	}
+	return {
+		...state,
+		low,
+		high,
+		opponent: Math.floor((low + high) / 2),
+		comparisons: state.comparisons + 1,
+	};
+}
+
+/**
+ * Replaces a skipped opponent with a random other one from the remaining range
+ */
+export function skipInsertionOpponent(state: InsertionState): InsertionState {
+	const candidates: number[] = [];
+	for (let i = state.low; i < state.high; i++) {
+		if (i !== state.opponent) candidates.push(i);
+	}
+	if (candidates.length === 0) return state;
+	return { ...state, opponent: candidates[Math.floor(Math.random() * candidates.length)] };
+}
+
+/**
+ * Estimates the comparisons left, one per halving of the remaining range
+ */
+export function getRemainingComparisons(state: InsertionState): number {
+	const size = state.high - state.low;
+	return size > 0 ? Math.ceil(Math.log2(size + 1)) : 0;
+}
+
+/**
+ * Describes where the item ended up. The rank comes from its rating, which a few
+ * comparisons may not have moved all the way to the position the search found.
+ */
+export function summarizeInsertion(state: InsertionState, items: SelectedFile[]): InsertionSummary {
+	const item = items.find((i) => i.id === state.id);
+	const rating = item?.rating ?? state.startRating;
+	const others = items.filter((i) => i.id !== state.id).sort((a, b) => b.rating - a.rating);
+	const higher = others.filter((i) => i.rating > rating).length;
+	return {
+		name: item?.name ?? state.id,
+		rank: higher + 1,
+		searchRank: state.low + 1,
+		total: others.length + 1,
+		comparisons: state.comparisons,
+		startRating: state.startRating,
+		rating,
+		above: others[higher - 1]?.name,
+		below: others[higher]?.name,
+	};
+}
@@ -0,0 +1,33 @@
+import type { EloEvent, ItemStats } from '../types';
+
+/**
+ * Gets the stats entry for an id, creating it if missing
+ */
+function getOrCreate(stats: Record<string, ItemStats>, id: string): ItemStats {
+	if (!stats[id]) {
+		stats[id] = { wins: 0, losses: 0, draws: 0 };
+	}
+	return stats[id];
+}
+
+/**
+ * Counts wins, losses and draws per item from the event log
+ */
+export function computeItemStats(events: EloEvent[]): Record<string, ItemStats> {
+	const stats: Record<string, ItemStats> = {};
+	for (const event of events) {
+		const a = getOrCreate(stats, event.a);
+		const b = getOrCreate(stats, event.b);
+		if (event.s === 1) {
+			a.wins++;
+			b.losses++;
+		} else if (event.s === 0) {
+			a.losses++;
+			b.wins++;
+		} else {
+			a.draws++;
+			b.draws++;
+		}
+	}
+	return stats;
+}
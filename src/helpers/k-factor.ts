@@ -0,0 +1,47 @@
+import type { ComparisonTypeConfig } from '../types';
+import {
+	DEFAULT_K_FACTOR,
+	DEFAULT_PROVISIONAL_GAMES,
+	DEFAULT_PROVISIONAL_K_FACTOR,
+} from '../constants';
+
+/**
+ * Gets the K-factor for an item from its games played and current rating
+ */
+export type KFactorSchedule = (games: number, rating: number) => number;
+
+/**
+ * Creates the K-factor schedule of a comparison type.
+ * Without dynamic K every item uses the base K-factor. With dynamic K, provisional
+ * items start at the provisional K-factor and decay linearly to the base K-factor,
+ * and items in the top rating band are capped at the band's K-factor.
+ */
+export function createKFactorSchedule(config: ComparisonTypeConfig): KFactorSchedule {
+	const baseK = config.kFactor ?? DEFAULT_K_FACTOR;
+	if (!config.dynamicKFactor) {
+		return () => baseK;
+	}
+
+	const provisionalGames = config.provisionalGames ?? DEFAULT_PROVISIONAL_GAMES;
+	const provisionalK = config.provisionalKFactor ?? DEFAULT_PROVISIONAL_K_FACTOR;
+	const bandThreshold = config.ratingBandThreshold;
+	const bandK = config.ratingBandKFactor;
+
+	return (games, rating) => {
+		let k = baseK;
+		if (games < provisionalGames) {
+			k = provisionalK - ((provisionalK - baseK) * games) / provisionalGames;
+		}
+		if (bandThreshold !== undefined && bandK !== undefined && rating >= bandThreshold) {
+			k = Math.min(k, bandK);
+		}
+		return k;
+	};
+}
+
+/**
+ * Checks whether an item has played too few games for its rating to be settled
+ */
+export function isProvisional(games: number, config: ComparisonTypeConfig): boolean {
+	return games < (config.provisionalGames ?? DEFAULT_PROVISIONAL_GAMES);
+}
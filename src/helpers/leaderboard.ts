@@ -0,0 +1,93 @@
+import { TFile, Vault } from 'obsidian';
+import type { ComparisonTypeConfig, StoreType } from '../types';
+import { computeItemStats } from './item-stats';
+import { isProvisional } from './k-factor';
+
+export interface LeaderboardEntry {
+	id: string;
+	name: string;
+	file: TFile | null;
+	rank: number;
+	rating: number;
+	games: number;
+	last?: string;
+	wins: number;
+	losses: number;
+	draws: number;
+	provisional: boolean;
+}
+
+export type LeaderboardColumn =
+	| 'rank'
+	| 'name'
+	| 'rating'
+	| 'games'
+	| 'last'
+	| 'wins'
+	| 'losses'
+	| 'draws'
+	| 'provisional';
+
+export const LEADERBOARD_COLUMNS: Record<
+	LeaderboardColumn,
+	{ label: string; value: (entry: LeaderboardEntry) => string | number | boolean }
+> = {
+	rank: { label: '#', value: (e) => e.rank },
+	name: { label: 'Name', value: (e) => e.name },
+	rating: { label: 'Rating', value: (e) => e.rating },
+	games: { label: 'Games', value: (e) => e.games },
+	last: { label: 'Last compared', value: (e) => e.last ?? '' },
+	wins: { label: 'W', value: (e) => e.wins },
+	losses: { label: 'L', value: (e) => e.losses },
+	draws: { label: 'D', value: (e) => e.draws },
+	provisional: { label: 'Provisional', value: (e) => e.provisional },
+};
+
+/**
+ * Formats a "last compared" day (YYYY-MM-DD) as a local date. Parsed by `new Date` it
+ * would be midnight UTC, which is the day before west of UTC.
+ */
+export function formatLastCompared(last?: string): string {
+	if (!last) return '—';
+	const [year, month, day] = last.split('-').map(Number);
+	return new Date(year, month - 1, day).toLocaleDateString();
+}
+
+/**
+ * Ranks the rated items of a store, highest rating first. Equal ratings share a rank.
+ * Deleted notes are left out; ids that aren't a note (anymore) keep their id as name.
+ */
+export function buildLeaderboard(
+	vault: Vault,
+	store: StoreType,
+	config: ComparisonTypeConfig
+): LeaderboardEntry[] {
+	const stats = computeItemStats(store.events);
+	const entries = Object.entries(store.ratings)
+		.filter(([, data]) => !data.deleted)
+		.map(([id, data]): LeaderboardEntry => {
+			const abstractFile = vault.getAbstractFileByPath(id);
+			const file = abstractFile instanceof TFile ? abstractFile : null;
+			const itemStats = stats[id];
+			return {
+				id,
+				name: file ? file.basename : id,
+				file,
+				rank: 0,
+				rating: data.rating,
+				games: data.games,
+				last: data.last,
+				wins: itemStats?.wins ?? 0,
+				losses: itemStats?.losses ?? 0,
+				draws: itemStats?.draws ?? 0,
+				provisional: isProvisional(data.games, config),
+			};
+		})
+		.sort((a, b) => b.rating - a.rating);
+
+	entries.forEach((entry, i) => {
+		const previous = entries[i - 1];
+		entry.rank = previous && previous.rating === entry.rating ? previous.rank : i + 1;
+	});
+	return entries;
+}
@@ -1,4 +1,44 @@
-import type { SelectedFile } from '../types';
+import type { SelectedFile, PairStrategyId, SkippedPair } from '../types';
+import { expectedScore } from '../elo-algorithm';
+import { DEFAULT_EXPLORATION_RATE, DEFAULT_TOP_K, DEFAULT_UNCERTAINTY } from '../constants';
+
+export interface PairOptions {
+	strategy?: PairStrategyId;
+	explorationRate?: number;
+	topK?: number; // Size of the top set for the 'top-k' strategy
+	recentPairs?: Set<string>; // Pair keys shown within the pair cooldown
+	recentItems?: Set<string>; // Item ids shown within the item cooldown
+	skipped?: Record<string, SkippedPair>; // Persisted skips, deprioritized by count
+}
+
+// Relevance of a top-K item with the uncertainty of one without games, however high it's rated
+const TOP_K_FLOOR = 0.1;
+
+// Weight of a pair by index: 0 blocks it, lower values make it less likely
+type PairWeight = (i: number, j: number) => number;
+
+export const PAIR_STRATEGIES: Record<PairStrategyId, { name: string; description: string }> = {
+	balanced: {
+		name: 'Balanced',
+		description: 'Items with the fewest games against random opponents',
+	},
+	closest: {
+		name: 'Closest rating',
+		description: 'Items with the fewest games against the closest-rated opponent',
+	},
+	uncertainty: {
+		name: 'Uncertainty-weighted',
+		description: 'The least certain items against opponents whose outcome is hard to predict',
+	},
+	information: {
+		name: 'Most informative',
+		description: 'The pair whose outcome is expected to teach the most about the ranking',
+	},
+	'top-k': {
+		name: 'Top-K focus',
+		description: 'Items near the boundary of the top K and uncertain contenders for it',
+	},
+};
 
 /**
  * Finds the item with the minimum number of games played
@@ -28,13 +68,261 @@ function getItemsWithGames(
 }
 
 /**
- * Selects a random pair of items for comparison, prioritizing items with fewer games
+ * Picks an index with probability proportional to its weight
+ */
+function pickWeighted(weights: Array<{ index: number; weight: number }>): number {
+	const total = weights.reduce((sum, w) => sum + w.weight, 0);
+	let r = Math.random() * total;
+	for (const w of weights) {
+		r -= w.weight;
+		if (r <= 0) return w.index;
+	}
+	return weights[weights.length - 1].index;
+}
+
+/**
+ * Estimates the rating uncertainty of an item (rating deviation if the engine tracks one)
+ */
+export function getUncertainty(item: SelectedFile): number {
+	return item.rd ?? DEFAULT_UNCERTAINTY / Math.sqrt(1 + (item.games ?? 0));
+}
+
+/**
+ * Picks a random item among those with the fewest games
+ */
+function pickLeastPlayed(items: SelectedFile[]): number {
+	const candidates = getItemsWithGames(items, findMinimumGames(items));
+	return candidates[Math.floor(Math.random() * candidates.length)].index;
+}
+
+/**
+ * Pairs an item with the fewest games against the closest-rated opponent
+ */
+function pickClosestPair(items: SelectedFile[], weight: PairWeight): [number, number] | null {
+	const anchor = pickLeastPlayed(items);
+	let best: number[] = [];
+	let bestDistance = Infinity;
+	items.forEach((item, i) => {
+		const w = i === anchor ? 0 : weight(anchor, i);
+		if (w === 0) return;
+		// Deprioritized pairs look further apart than they are
+		const distance = Math.abs(item.rating - items[anchor].rating) / w;
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = [i];
+		} else if (distance === bestDistance) {
+			best.push(i);
+		}
+	});
+	if (best.length === 0) return null;
+	return [anchor, best[Math.floor(Math.random() * best.length)]];
+}
+
+/**
+ * Pairs the most uncertain item against an opponent weighted by how unpredictable
+ * the outcome is and how uncertain the opponent is
+ */
+function pickUncertaintyPair(items: SelectedFile[], weight: PairWeight): [number, number] | null {
+	const anchor = pickWeighted(
+		items.map((item, index) => ({ index, weight: getUncertainty(item) ** 2 }))
+	);
+	const weights = items
+		.map((item, index) => {
+			const p = expectedScore(items[anchor].rating, item.rating);
+			const w = index === anchor ? 0 : weight(anchor, index);
+			return { index, weight: p * (1 - p) * getUncertainty(item) * w };
+		})
+		.filter((w) => w.weight > 0);
+	if (weights.length === 0) return null;
+	return [anchor, pickWeighted(weights)];
+}
+
+/**
+ * Picks the pair with the highest expected information gain: outcomes close to a coin flip
+ * between uncertain items reduce the total rating variance the most
+ */
+function pickInformationPair(items: SelectedFile[], weight: PairWeight): [number, number] | null {
+	let best: Array<[number, number]> = [];
+	let bestGain = 0;
+	for (let i = 0; i < items.length; i++) {
+		const ui = getUncertainty(items[i]);
+		for (let j = i + 1; j < items.length; j++) {
+			const uj = getUncertainty(items[j]);
+			const p = expectedScore(items[i].rating, items[j].rating);
+			const gain = p * (1 - p) * (ui * ui + uj * uj) * weight(i, j);
+			if (gain <= 0) continue;
+			if (gain > bestGain + 1e-9) {
+				bestGain = gain;
+				best = [[i, j]];
+			} else if (Math.abs(gain - bestGain) <= 1e-9) {
+				best.push([i, j]);
+			}
+		}
+	}
+	if (best.length === 0) return null;
+	const pair = best[Math.floor(Math.random() * best.length)];
+	// Randomize sides so the same item isn't always on the left
+	return Math.random() < 0.5 ? pair : [pair[1], pair[0]];
+}
+
+/**
+ * Pairs items that could still end up on either side of the top-K boundary: the closer
+ * an item's rating is to the boundary relative to its uncertainty, the likelier it is picked
+ */
+function pickTopKPair(
+	items: SelectedFile[],
+	weight: PairWeight,
+	k: number
+): [number, number] | null {
+	if (items.length <= k) return pickUncertaintyPair(items, weight);
+
+	const ratings = items.map((item) => item.rating).sort((a, b) => b - a);
+	const boundary = (ratings[k - 1] + ratings[k]) / 2;
+	const relevance = items.map((item) => {
+		const uncertainty = getUncertainty(item);
+		const z = (item.rating - boundary) / uncertainty;
+		// Items in the top K keep a floor in proportion to their uncertainty, so an uncertain
+		// one is still checked however high it's rated; the rest only a small one
+		const floor = z > 0 ? (TOP_K_FLOOR * uncertainty) / DEFAULT_UNCERTAINTY : 1e-6;
+		return Math.max(Math.exp((-z * z) / 2), floor);
+	});
+
+	const anchor = pickWeighted(
+		items.map((item, index) => ({ index, weight: relevance[index] * getUncertainty(item) }))
+	);
+	const weights = items
+		.map((item, index) => {
+			const p = expectedScore(items[anchor].rating, item.rating);
+			const w = index === anchor ? 0 : weight(anchor, index);
+			return { index, weight: p * (1 - p) * relevance[index] * w };
+		})
+		.filter((w) => w.weight > 0);
+	if (weights.length === 0) return null;
+	return [anchor, pickWeighted(weights)];
+}
+
+/**
+ * Picks any pair that isn't blocked, weighted by its pair weight
+ */
+function pickAnyPair(items: SelectedFile[], weight: PairWeight): [number, number] | null {
+	const pairs: Array<[number, number]> = [];
+	const weights: Array<{ index: number; weight: number }> = [];
+	for (let i = 0; i < items.length; i++) {
+		for (let j = i + 1; j < items.length; j++) {
+			const w = weight(i, j);
+			if (w > 0) {
+				weights.push({ index: pairs.length, weight: w });
+				pairs.push([i, j]);
+			}
+		}
+	}
+	return pairs.length > 0 ? pairs[pickWeighted(weights)] : null;
+}
+
+/**
+ * Gets the unordered key of a pair of item ids
+ */
+export function getPairKey(a: string, b: string): string {
+	return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Gets how eligible a pair is: 0 while on cooldown, lower the more often it was skipped
+ */
+function getPairWeight(a: SelectedFile, b: SelectedFile, options: PairOptions): number {
+	const key = getPairKey(a.id, b.id);
+	if (options.recentPairs?.has(key)) return 0;
+	const skipped = options.skipped?.[key]?.count ?? 0;
+	return 1 / (1 + skipped);
+}
+
+/**
+ * Runs the selected strategy (or a balanced pick when exploring)
  */
-export function pickPair(items: SelectedFile[]): [number, number] {
+function pickStrategyPair(
+	items: SelectedFile[],
+	options: PairOptions,
+	weight: PairWeight
+): [number, number] | null {
+	const explorationRate = options.explorationRate ?? DEFAULT_EXPLORATION_RATE;
+	const strategy = options.strategy ?? 'balanced';
+	if (strategy === 'balanced' || Math.random() < explorationRate) {
+		return pickBalancedPair(items, weight);
+	}
+
+	switch (strategy) {
+		case 'closest':
+			return pickClosestPair(items, weight);
+		case 'uncertainty':
+			return pickUncertaintyPair(items, weight);
+		case 'information':
+			return pickInformationPair(items, weight);
+		case 'top-k':
+			return pickTopKPair(
+				items,
+				weight,
+				Math.max(1, Math.floor(options.topK ?? DEFAULT_TOP_K))
+			);
+	}
+}
+
+/**
+ * Selects a pair of items for comparison using the given strategy.
+ * With the exploration rate, a balanced random pair is picked instead for variety.
+ * Items and pairs on cooldown are left out as long as other candidates remain.
+ */
+export function pickPair(items: SelectedFile[], options: PairOptions = {}): [number, number] {
 	if (items.length < 2) {
 		return [0, 0];
 	}
 
+	// Leave out items on cooldown if enough others remain
+	let indices = items.map((_, i) => i);
+	const recentItems = options.recentItems;
+	if (recentItems && recentItems.size > 0) {
+		const rested = indices.filter((i) => !recentItems.has(items[i].id));
+		if (rested.length >= 2) indices = rested;
+	}
+
+	const pool = indices.map((i) => items[i]);
+	const weight: PairWeight = (i, j) => getPairWeight(pool[i], pool[j], options);
+	const pair =
+		pickStrategyPair(pool, options, weight) ??
+		pickAnyPair(pool, weight) ??
+		// Every pair is on cooldown: ignore the cooldowns
+		pickBalancedPair(pool, () => 1) ?? [0, 1];
+
+	return [indices[pair[0]], indices[pair[1]]];
+}
+
+/**
+ * Picks an opponent for a given item: the closest-rated one, preferring pairs that
+ * aren't on cooldown or were skipped often
+ */
+export function pickOpponent(
+	items: SelectedFile[],
+	index: number,
+	options: PairOptions = {}
+): number {
+	let best = index;
+	let bestDistance = Infinity;
+	items.forEach((item, i) => {
+		if (i === index) return;
+		const w = getPairWeight(items[index], item, options);
+		const distance =
+			w === 0 ? Number.MAX_VALUE : Math.abs(item.rating - items[index].rating) / w;
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = i;
+		}
+	});
+	return best;
+}
+
+/**
+ * Selects a random pair of items for comparison, prioritizing items with fewer games
+ */
+function pickBalancedPair(items: SelectedFile[], weight: PairWeight): [number, number] | null {
 	// Find items with the minimum number of games
 	const minimumGames = findMinimumGames(items);
 	const itemsWithMinGames = getItemsWithGames(items, minimumGames);
@@ -53,22 +341,24 @@ export function pickPair(items: SelectedFile[]): [number, number] {
 	const selectedItem = itemsWithMinGames[Math.floor(Math.random() * itemsWithMinGames.length)];
 	const selectedIndex = selectedItem.index;
 
-	// Pick a different item to compare against
+	// Pick a different item to compare against, leaving out blocked pairs
 	const otherIndices = items
 		.map((_, i) => i)
-		.filter((i) => i !== selectedIndex)
+		.filter((i) => i !== selectedIndex && weight(selectedIndex, i) > 0)
 		.map((idx) => ({
 			idx,
 			games: items[idx]?.games ?? 0,
 		}));
+	if (otherIndices.length === 0) return null;
 
 	// Sort by games count and pick from bottom 50% for variety
 	otherIndices.sort((a, b) => a.games - b.games);
 	const halfPoint = Math.ceil(otherIndices.length / 2);
 	const candidates = otherIndices.slice(0, halfPoint);
 
-	const otherIndex = candidates[Math.floor(Math.random() * candidates.length)].idx;
+	const otherIndex = pickWeighted(
+		candidates.map(({ idx }) => ({ index: idx, weight: weight(selectedIndex, idx) }))
+	);
 
 	return [selectedIndex, otherIndex];
 }
-
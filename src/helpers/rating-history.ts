@@ -0,0 +1,38 @@
+import type { ReplayStep } from './event-log';
+
+export type PointResult = 'win' | 'loss' | 'draw';
+
+export interface RatingPoint {
+	t: number; // timestamp
+	rating: number;
+	result?: PointResult; // missing for the starting point
+	opponent?: string; // id of the opponent
+}
+
+/**
+ * Follows the replayed log and records the rating of every item after each of its comparisons.
+ * Each history starts with the rating the item had before its first comparison.
+ */
+export function computeRatingHistories(steps: ReplayStep[]): Record<string, RatingPoint[]> {
+	const histories: Record<string, RatingPoint[]> = {};
+	const record = (
+		id: string,
+		t: number,
+		before: number,
+		after: number,
+		score: number,
+		opponent: string
+	) => {
+		if (!histories[id]) {
+			histories[id] = [{ t, rating: Math.round(before) }];
+		}
+		const result: PointResult = score === 1 ? 'win' : score === 0 ? 'loss' : 'draw';
+		histories[id].push({ t, rating: Math.round(after), result, opponent });
+	};
+
+	for (const { event, before, after } of steps) {
+		record(event.a, event.t, before[0].rating, after[0].rating, event.s, event.b);
+		record(event.b, event.t, before[1].rating, after[1].rating, 1 - event.s, event.a);
+	}
+	return histories;
+}
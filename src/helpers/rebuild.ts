@@ -0,0 +1,91 @@
+import type { FileEloData, RatingEngine, RatingSnapshot, StoreType } from '../types';
+import { SNAPSHOT_INTERVAL } from '../constants';
+import type { KFactorSchedule } from './k-factor';
+import { getBaselines, getStoreSnapshots, replayEvents } from './event-log';
+import type { ReplayState } from './event-log';
+
+export interface RatingDiff {
+	id: string;
+	stored?: FileEloData;
+	rebuilt: FileEloData;
+}
+
+export interface RebuildReport {
+	store: StoreType; // The store with recomputed ratings and snapshots
+	changed: RatingDiff[]; // Items whose rating or games differ from the stored ones
+	unknownIds: string[]; // Ids in the event log with no note and no stored rating
+	unknownEvents: number; // Number of events referencing unknown ids
+}
+
+/**
+ * Converts a replayed state to stored rating data, keeping the stored pool
+ */
+function toFileEloData(state: ReplayState, stored?: FileEloData): FileEloData {
+	const data: FileEloData = {
+		...stored,
+		rating: state.rating,
+		games: state.games,
+		pool: stored?.pool ?? 'default',
+		last: state.last,
+	};
+	if (state.rd !== undefined) data.rd = state.rd;
+	if (state.volatility !== undefined) data.volatility = state.volatility;
+	return data;
+}
+
+/**
+ * Replays the complete event log from its baselines and compares the result to the stored
+ * ratings. Items without any event keep their stored data.
+ */
+export function rebuildStore(
+	store: StoreType,
+	engine: RatingEngine,
+	kSchedule: KFactorSchedule,
+	noteExists: (id: string) => boolean
+): RebuildReport {
+	// Replay in chunks so every SNAPSHOT_INTERVAL events a snapshot can be taken
+	const baselines = getBaselines(getStoreSnapshots(store, engine, kSchedule));
+	const snapshots: RatingSnapshot[] = [...baselines];
+	let snapshot: RatingSnapshot | undefined;
+	let states = new Map<string, ReplayState>();
+	for (let end = SNAPSHOT_INTERVAL; ; end += SNAPSHOT_INTERVAL) {
+		const chunkEnd = Math.min(end, store.events.length);
+		const chunk = store.events.slice(0, chunkEnd);
+		states = replayEvents(chunk, engine, kSchedule, snapshot, undefined, baselines);
+		if (chunkEnd < end) break;
+
+		const ratings: Record<string, FileEloData> = {};
+		states.forEach((state, id) => (ratings[id] = toFileEloData(state, store.ratings[id])));
+		snapshot = { events: chunkEnd, t: Date.now(), ratings };
+		snapshots.push(snapshot);
+		if (chunkEnd === store.events.length) break;
+	}
+
+	const ratings = { ...store.ratings };
+	const changed: RatingDiff[] = [];
+	states.forEach((state, id) => {
+		const stored = store.ratings[id];
+		const rebuilt = toFileEloData(state, stored);
+		ratings[id] = rebuilt;
+		// Ratings are compared as shown, so a fitted baseline's rounding doesn't count
+		const moved = stored && Math.round(stored.rating) !== Math.round(rebuilt.rating);
+		if (!stored || moved || stored.games !== rebuilt.games) {
+			changed.push({ id, stored, rebuilt });
+		}
+	});
+
+	const unknownIds = new Set<string>();
+	let unknownEvents = 0;
+	for (const event of store.events) {
+		const unknown = [event.a, event.b].filter((id) => !store.ratings[id] && !noteExists(id));
+		unknown.forEach((id) => unknownIds.add(id));
+		if (unknown.length > 0) unknownEvents++;
+	}
+
+	return {
+		store: { ...store, ratings, snapshots },
+		changed,
+		unknownIds: Array.from(unknownIds).sort(),
+		unknownEvents,
+	};
+}
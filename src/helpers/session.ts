@@ -0,0 +1,157 @@
+import type {
+	ComparisonTypeConfig,
+	SessionGoal,
+	SessionRatingChange,
+	SessionSummary,
+	StoreType,
+} from '../types';
+import { DEFAULT_RATING } from '../constants';
+import { isProvisional } from './k-factor';
+
+// Number of risers and fallers kept in a session summary
+const SESSION_MOVERS = 5;
+
+/**
+ * A session in progress. Its comparisons are the events added to the store after it started.
+ */
+export interface ActiveSession {
+	storeName: string;
+	config: ComparisonTypeConfig; // Configuration of the store's type, for provisional status
+	goal: SessionGoal;
+	started: number; // timestamp
+	startEvents: number; // Number of events in the store when the session started
+	startRatings: Record<string, { rating: number; games: number }>;
+}
+
+export interface SessionProgress {
+	value: number;
+	max: number;
+	reached: boolean;
+	label: string;
+}
+
+/**
+ * Creates a session on a store, remembering the ratings to compare the end result with
+ */
+export function createSession(
+	storeName: string,
+	config: ComparisonTypeConfig,
+	goal: SessionGoal,
+	store: StoreType
+): ActiveSession {
+	const startRatings: ActiveSession['startRatings'] = {};
+	for (const [id, data] of Object.entries(store.ratings)) {
+		startRatings[id] = { rating: data.rating, games: data.games };
+	}
+	return {
+		storeName,
+		config,
+		goal,
+		started: Date.now(),
+		startEvents: store.events.length,
+		startRatings,
+	};
+}
+
+/**
+ * Counts the comparisons made since the session started; undone ones don't count
+ */
+export function countSessionComparisons(session: ActiveSession, store: StoreType): number {
+	return Math.max(0, store.events.length - session.startEvents);
+}
+
+/**
+ * Formats a duration as m:ss, or h:mm:ss from an hour on
+ */
+export function formatDuration(ms: number): string {
+	const total = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const seconds = String(total % 60).padStart(2, '0');
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+		: `${minutes}:${seconds}`;
+}
+
+/**
+ * Describes a session goal, e.g. "20 comparisons" or "15 minutes"
+ */
+export function describeSessionGoal(goal: SessionGoal): string {
+	return goal.kind === 'comparisons'
+		? `${goal.count} comparison${goal.count === 1 ? '' : 's'}`
+		: `${goal.minutes} minute${goal.minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Gets how far a session is towards its goal
+ */
+export function getSessionProgress(
+	session: ActiveSession,
+	store: StoreType,
+	now: number
+): SessionProgress {
+	const { goal } = session;
+	if (goal.kind === 'comparisons') {
+		const done = countSessionComparisons(session, store);
+		return {
+			value: Math.min(done, goal.count),
+			max: goal.count,
+			reached: done >= goal.count,
+			label: `${done} of ${goal.count} comparisons`,
+		};
+	}
+	const max = goal.minutes * 60 * 1000;
+	const elapsed = now - session.started;
+	return {
+		value: Math.min(elapsed, max),
+		max,
+		reached: elapsed >= max,
+		label:
+			`${formatDuration(Math.min(elapsed, max))} of ${formatDuration(max)}, ` +
+			`${countSessionComparisons(session, store)} comparisons`,
+	};
+}
+
+/**
+ * Summarizes a session: the rating changes since it started, and the items that played
+ * enough games in it to leave provisional status
+ */
+export function summarizeSession(
+	session: ActiveSession,
+	store: StoreType,
+	names: Record<string, string>,
+	now: number
+): SessionSummary {
+	const { config } = session;
+	const changes: SessionRatingChange[] = [];
+	const leftProvisional: SessionSummary['leftProvisional'] = [];
+	for (const [id, data] of Object.entries(store.ratings)) {
+		const start = session.startRatings[id];
+		const name = names[id] ?? id;
+		const before = start?.rating ?? DEFAULT_RATING;
+		if (data.rating !== before) {
+			changes.push({ id, name, before, after: data.rating });
+		}
+		if (isProvisional(start?.games ?? 0, config) && !isProvisional(data.games, config)) {
+			leftProvisional.push({ id, name });
+		}
+	}
+
+	const delta = (change: SessionRatingChange) => change.after - change.before;
+	return {
+		goal: session.goal,
+		started: session.started,
+		ended: now,
+		comparisons: countSessionComparisons(session, store),
+		reachedGoal: getSessionProgress(session, store, now).reached,
+		risers: changes
+			.filter((change) => delta(change) > 0)
+			.sort((a, b) => delta(b) - delta(a))
+			.slice(0, SESSION_MOVERS),
+		fallers: changes
+			.filter((change) => delta(change) < 0)
+			.sort((a, b) => delta(a) - delta(b))
+			.slice(0, SESSION_MOVERS),
+		leftProvisional,
+	};
+}
@@ -0,0 +1,155 @@
+import type { EloEvent, SelectedFile } from '../types';
+import { DEFAULT_RATING } from '../constants';
+import type { ReplayStep } from './event-log';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_SHOWN = 14;
+const WEEKS_SHOWN = 8;
+const HISTOGRAM_BINS = 10;
+const DATE_LABEL: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+// Number of recent comparisons the ranking's movement is measured over
+export const SETTLEDNESS_WINDOW = 50;
+
+export interface Bar {
+	label: string;
+	value: number;
+}
+
+export interface TypeStatistics {
+	comparisons: number;
+	perDay: Bar[]; // oldest first
+	perWeek: Bar[]; // oldest first, weeks starting on Monday
+	totalGames: number;
+	averageGames: number;
+	histogram: Bar[];
+	upsets: number;
+	decided: number; // comparisons with a winner between differently rated items
+	neverCompared: SelectedFile[];
+	averageRankChange?: number; // over the last SETTLEDNESS_WINDOW comparisons
+}
+
+/**
+ * Gets the local midnight of a timestamp
+ */
+function startOfDay(t: number): number {
+	const date = new Date(t);
+	date.setHours(0, 0, 0, 0);
+	return date.getTime();
+}
+
+/**
+ * Counts the events per bucket, for the given number of buckets ending with the current one
+ */
+function countPerBucket(
+	events: EloEvent[],
+	bucketStart: number,
+	bucketSize: number,
+	count: number
+): Bar[] {
+	const bars: Bar[] = [];
+	for (let i = count - 1; i >= 0; i--) {
+		const start = bucketStart - i * bucketSize;
+		bars.push({
+			label: new Date(start).toLocaleDateString(undefined, DATE_LABEL),
+			value: 0,
+		});
+	}
+	const first = bucketStart - (count - 1) * bucketSize;
+	for (const event of events) {
+		if (event.t < first) continue;
+		const index = Math.floor((event.t - first) / bucketSize);
+		if (index < count) bars[index].value++;
+	}
+	return bars;
+}
+
+/**
+ * Splits the ratings into equally wide bins between the lowest and highest rating
+ */
+function buildHistogram(ratings: number[]): Bar[] {
+	if (ratings.length === 0) return [];
+	const min = Math.min(...ratings);
+	const max = Math.max(...ratings);
+	const width = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS));
+	const bins = Math.ceil((max - min + 1) / width);
+	const bars: Bar[] = Array.from({ length: bins }, (_, i) => ({
+		label: String(min + i * width),
+		value: 0,
+	}));
+	for (const rating of ratings) {
+		bars[Math.floor((rating - min) / width)].value++;
+	}
+	return bars;
+}
+
+/**
+ * Ranks items by rating, highest first
+ */
+function getRanks(ids: string[], ratingOf: (id: string) => number): Map<string, number> {
+	const sorted = [...ids].sort((a, b) => ratingOf(b) - ratingOf(a));
+	return new Map(sorted.map((id, i) => [id, i + 1]));
+}
+
+/**
+ * Computes the statistics of a comparison type from its replayed event log and current items
+ */
+export function computeStatistics(
+	steps: ReplayStep[],
+	items: SelectedFile[],
+	now: number = Date.now()
+): TypeStatistics {
+	const events = steps.map((step) => step.event);
+	const today = startOfDay(now);
+	// Monday of the current week
+	const monday = startOfDay(today - ((new Date(today).getDay() + 6) % 7) * DAY_MS);
+
+	// Follow the replay to know who was rated higher before each comparison, and the ratings
+	// before the last comparisons to measure how much the ranking still moves
+	let upsets = 0;
+	let decided = 0;
+	const windowStart = events.length - SETTLEDNESS_WINDOW;
+	let ratingsBefore: Map<string, number> | undefined;
+	const current = new Map<string, number>();
+	steps.forEach(({ event, seeded, before, after }, index) => {
+		for (const [id, data] of Object.entries(seeded ?? {})) {
+			current.set(id, data.rating);
+		}
+		if (index === windowStart) {
+			ratingsBefore = new Map(current);
+		}
+		if (event.s !== 0.5 && before[0].rating !== before[1].rating) {
+			decided++;
+			const [winner, loser] = event.s === 1 ? before : [before[1], before[0]];
+			if (winner.rating < loser.rating) upsets++;
+		}
+		current.set(event.a, after[0].rating);
+		current.set(event.b, after[1].rating);
+	});
+
+	let averageRankChange: number | undefined;
+	if (ratingsBefore && items.length > 0) {
+		const then = ratingsBefore;
+		const ids = items.map((item) => item.id);
+		const ranksThen = getRanks(ids, (id) => then.get(id) ?? DEFAULT_RATING);
+		const ranksNow = getRanks(ids, (id) => current.get(id) ?? DEFAULT_RATING);
+		const total = ids.reduce(
+			(sum, id) => sum + Math.abs((ranksNow.get(id) ?? 0) - (ranksThen.get(id) ?? 0)),
+			0
+		);
+		averageRankChange = total / ids.length;
+	}
+
+	const totalGames = items.reduce((sum, item) => sum + item.games, 0);
+	return {
+		comparisons: events.length,
+		perDay: countPerBucket(events, today, DAY_MS, DAYS_SHOWN),
+		perWeek: countPerBucket(events, monday, 7 * DAY_MS, WEEKS_SHOWN),
+		totalGames,
+		averageGames: items.length > 0 ? totalGames / items.length : 0,
+		histogram: buildHistogram(items.map((item) => item.rating)),
+		upsets,
+		decided,
+		neverCompared: items.filter((item) => item.games === 0),
+		averageRankChange,
+	};
+}
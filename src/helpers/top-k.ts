@@ -0,0 +1,60 @@
+import type { SelectedFile } from '../types';
+import { DEFAULT_RATING } from '../constants';
+import type { ReplayStep } from './event-log';
+
+export interface TopKStability {
+	k: number;
+	window: number;
+	unchangedFor: number; // Comparisons since the top-K set last changed
+	stable: boolean; // Unchanged over at least the last `window` comparisons
+}
+
+/**
+ * Gets the ids of the K highest-rated items, ties broken by id so the set is deterministic
+ */
+function getTopKSet(ids: string[], ratingOf: (id: string) => number, k: number): string {
+	return [...ids]
+		.sort((a, b) => ratingOf(b) - ratingOf(a) || (a < b ? -1 : 1))
+		.slice(0, k)
+		.sort()
+		.join('\n');
+}
+
+/**
+ * Measures how long the top-K set of the loaded items has stayed the same,
+ * by following the replayed event log and comparing the set after each of the last comparisons
+ */
+export function computeTopKStability(
+	steps: ReplayStep[],
+	items: SelectedFile[],
+	k: number,
+	window: number
+): TopKStability {
+	const ids = items.map((item) => item.id);
+	const known = new Set(ids);
+	const ratings = new Map<string, number>();
+	const ratingOf = (id: string) => ratings.get(id) ?? DEFAULT_RATING;
+
+	// One set more than the window, so a change by its first comparison is noticed
+	const first = Math.max(0, steps.length - window - 1);
+	const sets: string[] = [];
+	steps.forEach(({ event, seeded, after }, index) => {
+		const seededIds = Object.keys(seeded ?? {});
+		for (const [id, data] of Object.entries(seeded ?? {})) {
+			ratings.set(id, data.rating);
+		}
+		ratings.set(event.a, after[0].rating);
+		ratings.set(event.b, after[1].rating);
+		if (index < first) return;
+		// Comparisons between items that aren't loaded can't change the set
+		const previous = sets[sets.length - 1];
+		const affected = [event.a, event.b, ...seededIds].some((id) => known.has(id));
+		sets.push(previous !== undefined && !affected ? previous : getTopKSet(ids, ratingOf, k));
+	});
+
+	let unchangedFor = 0;
+	for (let i = sets.length - 1; i > 0 && sets[i] === sets[i - 1]; i--) {
+		unchangedFor++;
+	}
+	return { k, window, unchangedFor, stable: items.length > k && unchangedFor >= window };
+}
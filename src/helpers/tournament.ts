@@ -0,0 +1,336 @@
+import type {
+	Outcome,
+	SelectedFile,
+	Tournament,
+	TournamentFormat,
+	TournamentMatch,
+} from '../types';
+import { getPairKey } from './pair-selection';
+
+// Steps the Swiss pairing may search for a round without rematches before allowing them
+const MAX_PAIRING_STEPS = 10000;
+
+export const TOURNAMENT_FORMATS: Record<TournamentFormat, { name: string; description: string }> = {
+	swiss: {
+		name: 'Swiss rounds',
+		description: 'Everyone plays every round against an opponent with a similar score',
+	},
+	elimination: {
+		name: 'Single elimination',
+		description: 'A seeded bracket where the loser of each match is out',
+	},
+};
+
+export interface TournamentStanding {
+	id: string;
+	seed: number; // 1-based
+	points: number;
+	wins: number;
+	losses: number;
+	draws: number;
+	byes: number;
+	buchholz: number; // Sum of the opponents' points, breaks ties between equal points
+}
+
+/**
+ * Gets the number of rounds that usually separates the field in a Swiss tournament
+ */
+export function getDefaultSwissRounds(participants: number): number {
+	return Math.max(1, Math.ceil(Math.log2(Math.max(participants, 2))));
+}
+
+/**
+ * Gets the winner of a played match, undefined for a draw or an unplayed match
+ */
+export function getMatchWinner(match: TournamentMatch): string | undefined {
+	if (match.s === 1) return match.a;
+	if (match.s === 0) return match.b;
+	return undefined;
+}
+
+/**
+ * Orders bracket positions so the top seeds can only meet in the late rounds,
+ * e.g. 1, 8, 4, 5, 2, 7, 3, 6 for eight positions
+ */
+function getBracketOrder(size: number): number[] {
+	let order = [1];
+	while (order.length < size) {
+		const total = order.length * 2 + 1;
+		order = order.flatMap((seed) => [seed, total - seed]);
+	}
+	return order;
+}
+
+/**
+ * Pairs the first round of a seeded bracket; seeds without an opponent get a bye
+ */
+function pairFirstBracketRound(participants: string[]): TournamentMatch[] {
+	const size = 2 ** Math.ceil(Math.log2(participants.length));
+	const order = getBracketOrder(size);
+	const matches: TournamentMatch[] = [];
+	for (let i = 0; i < order.length; i += 2) {
+		const a = participants[order[i] - 1];
+		const b = participants[order[i + 1] - 1];
+		matches.push(b ? { a, b } : { a, s: 1 });
+	}
+	return matches;
+}
+
+/**
+ * Computes the Swiss standings: points first, then Buchholz, then seed
+ */
+export function getStandings(tournament: Tournament): TournamentStanding[] {
+	const standings = new Map<string, TournamentStanding>();
+	tournament.participants.forEach((id, i) =>
+		standings.set(id, {
+			id,
+			seed: i + 1,
+			points: 0,
+			wins: 0,
+			losses: 0,
+			draws: 0,
+			byes: 0,
+			buchholz: 0,
+		})
+	);
+	const opponents = new Map<string, string[]>();
+
+	for (const match of tournament.rounds.flatMap((round) => round)) {
+		if (match.s === undefined) continue;
+		const a = standings.get(match.a);
+		const b = match.b !== undefined ? standings.get(match.b) : undefined;
+		if (!a) continue;
+		if (!match.b) {
+			a.byes++;
+			a.points += 1;
+			continue;
+		}
+		if (!b) continue;
+		a.points += match.s;
+		b.points += 1 - match.s;
+		if (match.s === 1) {
+			a.wins++;
+			b.losses++;
+		} else if (match.s === 0) {
+			a.losses++;
+			b.wins++;
+		} else {
+			a.draws++;
+			b.draws++;
+		}
+		opponents.set(match.a, [...(opponents.get(match.a) ?? []), match.b]);
+		opponents.set(match.b, [...(opponents.get(match.b) ?? []), match.a]);
+	}
+
+	for (const standing of standings.values()) {
+		standing.buchholz = (opponents.get(standing.id) ?? []).reduce(
+			(sum, id) => sum + (standings.get(id)?.points ?? 0),
+			0
+		);
+	}
+
+	return Array.from(standings.values()).sort(
+		(x, y) => y.points - x.points || y.buchholz - x.buchholz || x.seed - y.seed
+	);
+}
+
+/**
+ * Pairs players in order, each with the next player they haven't met yet.
+ * Backtracks when that leaves later players without a new opponent;
+ * returns null if there is no such pairing or the search takes too long.
+ */
+function pairWithoutRematches(
+	order: string[],
+	played: Set<string>
+): Array<[string, string]> | null {
+	let steps = 0;
+	const search = (remaining: string[]): Array<[string, string]> | null => {
+		if (remaining.length === 0) return [];
+		const [first, ...rest] = remaining;
+		for (let i = 0; i < rest.length; i++) {
+			if (++steps > MAX_PAIRING_STEPS) return null;
+			if (played.has(getPairKey(first, rest[i]))) continue;
+			const paired = search(rest.filter((_, j) => j !== i));
+			if (paired) return [[first, rest[i]], ...paired];
+		}
+		return null;
+	};
+	return search(order);
+}
+
+/**
+ * Pairs the next Swiss round by the current standings, avoiding rematches where possible.
+ * With an odd number of players, the lowest-ranked player without a bye sits out.
+ */
+function pairSwissRound(tournament: Tournament): TournamentMatch[] {
+	let order = getStandings(tournament).map((standing) => standing.id);
+	const previous = tournament.rounds.flatMap((round) => round);
+
+	let bye: TournamentMatch | undefined;
+	if (order.length % 2 === 1) {
+		const hadBye = new Set(previous.filter((m) => !m.b).map((m) => m.a));
+		const id = [...order].reverse().find((id) => !hadBye.has(id)) ?? order[order.length - 1];
+		order = order.filter((other) => other !== id);
+		bye = { a: id, s: 1 };
+	}
+
+	const played = new Set(
+		previous.filter((m) => m.b !== undefined).map((m) => getPairKey(m.a, m.b as string))
+	);
+	const pairs = pairWithoutRematches(order, played) ?? [];
+	if (pairs.length === 0) {
+		for (let i = 0; i + 1 < order.length; i += 2) {
+			pairs.push([order[i], order[i + 1]]);
+		}
+	}
+	const matches: TournamentMatch[] = pairs.map(([a, b]) => ({ a, b }));
+	return bye ? [...matches, bye] : matches;
+}
+
+/**
+ * Starts a tournament over the given items, seeded by their current rating
+ */
+export function createTournament(
+	name: string,
+	format: TournamentFormat,
+	items: SelectedFile[],
+	swissRounds?: number
+): Tournament {
+	const participants = [...items].sort((a, b) => b.rating - a.rating).map((item) => item.id);
+	const tournament: Tournament = {
+		name,
+		format,
+		participants,
+		rounds: [],
+		totalRounds:
+			format === 'elimination'
+				? Math.ceil(Math.log2(participants.length))
+				: Math.max(1, swissRounds ?? getDefaultSwissRounds(participants.length)),
+		started: Date.now(),
+	};
+	const firstRound =
+		format === 'elimination' ? pairFirstBracketRound(participants) : pairSwissRound(tournament);
+	return advanceRounds({ ...tournament, rounds: [firstRound] });
+}
+
+/**
+ * Pairs the next round once all matches of the current one are played,
+ * or marks the tournament as finished after the last round
+ */
+function advanceRounds(tournament: Tournament): Tournament {
+	let result = tournament;
+	while (!result.finished) {
+		const current = result.rounds[result.rounds.length - 1];
+		if (current.some((match) => match.s === undefined)) break;
+
+		if (result.rounds.length >= result.totalRounds) {
+			result = { ...result, finished: Date.now() };
+			break;
+		}
+		let next: TournamentMatch[];
+		if (result.format === 'elimination') {
+			const winners = current.map((match) => getMatchWinner(match) as string);
+			next = [];
+			for (let i = 0; i < winners.length; i += 2) {
+				next.push({ a: winners[i], b: winners[i + 1] });
+			}
+		} else {
+			next = pairSwissRound(result);
+		}
+		result = { ...result, rounds: [...result.rounds, next] };
+	}
+	return result;
+}
+
+/**
+ * Gets the next match to be played, undefined once the tournament is finished
+ */
+export function getCurrentMatch(tournament: Tournament): TournamentMatch | undefined {
+	if (tournament.finished) return undefined;
+	return tournament.rounds[tournament.rounds.length - 1]?.find((match) => match.s === undefined);
+}
+
+/**
+ * Records the result of the current match, given as the score of one of its items.
+ * Single-elimination matches need a winner, so draws leave the tournament unchanged.
+ */
+export function recordMatchResult(tournament: Tournament, id: string, score: Outcome): Tournament {
+	const match = getCurrentMatch(tournament);
+	if (!match || (match.a !== id && match.b !== id)) return tournament;
+	if (tournament.format === 'elimination' && score === 0.5) return tournament;
+
+	const played: TournamentMatch = {
+		...match,
+		s: match.a === id ? score : ((1 - score) as Outcome),
+		t: Date.now(),
+	};
+	const last = tournament.rounds.length - 1;
+	const rounds = tournament.rounds.map((round, i) =>
+		i === last ? round.map((m) => (m === match ? played : m)) : round
+	);
+	return advanceRounds({ ...tournament, rounds });
+}
+
+/**
+ * Checks whether the current match is between the two items, in either order
+ */
+export function isCurrentMatch(tournament: Tournament | undefined, a: string, b: string): boolean {
+	const match = tournament && getCurrentMatch(tournament);
+	return !!match && getPairKey(match.a, match.b ?? '') === getPairKey(a, b);
+}
+
+/**
+ * Gets the winner of a finished tournament: the final's winner or the top of the standings
+ */
+export function getChampion(tournament: Tournament): string | undefined {
+	if (!tournament.finished) return undefined;
+	if (tournament.format === 'elimination') {
+		const final = tournament.rounds[tournament.rounds.length - 1];
+		return final.length === 1 ? getMatchWinner(final[0]) : undefined;
+	}
+	return getStandings(tournament)[0]?.id;
+}
+
+/**
+ * Gets the number of played and total matches, not counting byes
+ */
+export function getTournamentProgress(tournament: Tournament): { played: number; total: number } {
+	const matches = tournament.rounds.flatMap((round) => round).filter((m) => m.b !== undefined);
+	const played = matches.filter((m) => m.s !== undefined).length;
+	if (tournament.format === 'elimination') {
+		return { played, total: tournament.participants.length - 1 };
+	}
+	const perRound = Math.floor(tournament.participants.length / 2);
+	return { played, total: perRound * tournament.totalRounds };
+}
+
+/**
+ * Gets the name of a bracket round by the number of rounds left after it
+ */
+export function getBracketRoundName(round: number, totalRounds: number): string {
+	const left = totalRounds - round;
+	if (left === 1) return 'Final';
+	if (left === 2) return 'Semifinals';
+	if (left === 3) return 'Quarterfinals';
+	return `Round of ${2 ** left}`;
+}
+
+/**
+ * Rewrites the item ids of a tournament, e.g. after notes were renamed
+ */
+export function renameTournamentIds(
+	tournament: Tournament,
+	rewrite: (id: string) => string
+): Tournament {
+	return {
+		...tournament,
+		participants: tournament.participants.map(rewrite),
+		rounds: tournament.rounds.map((round) =>
+			round.map((match) => ({
+				...match,
+				a: rewrite(match.a),
+				b: match.b !== undefined ? rewrite(match.b) : undefined,
+			}))
+		),
+	};
+}
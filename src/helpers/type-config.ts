@@ -0,0 +1,24 @@
+import type { ComparisonTypeConfig } from '../types';
+import { createDefaultFilter } from './file-filtering';
+
+/**
+ * Derives a display name from a type id (e.g. "book-club" -> "Book club")
+ */
+export function getDefaultDisplayName(typeId: string): string {
+	return typeId.charAt(0).toUpperCase() + typeId.slice(1).replace(/-/g, ' ');
+}
+
+/**
+ * Creates the configuration of a new comparison type, taking its folder and frontmatter
+ * property from `base` when given
+ */
+export function createTypeConfig(name: string, base?: ComparisonTypeConfig): ComparisonTypeConfig {
+	return {
+		name,
+		displayName: getDefaultDisplayName(name),
+		defaultFolder: base?.defaultFolder ?? '',
+		frontmatterProperty: base?.frontmatterProperty || 'rating',
+		includeSubfolders: base?.includeSubfolders ?? false,
+		filter: createDefaultFilter(name),
+	};
+}
@@ -0,0 +1,79 @@
+import type { ComparisonRecord, FileEloData, SelectedFile, StoreType } from '../types';
+import { DEFAULT_RATING } from '../constants';
+import { addSnapshotIfDue, trimSnapshots } from './event-log';
+
+/**
+ * Sets rating data on a store's ratings, removing entries that didn't exist before
+ */
+function setRating(
+	ratings: Record<string, FileEloData>,
+	id: string,
+	data: FileEloData | undefined
+): void {
+	if (data) {
+		ratings[id] = data;
+	} else {
+		delete ratings[id];
+	}
+}
+
+/**
+ * Removes a comparison from the store and restores both items' previous data,
+ * and the tournament's state before it if it was a tournament match
+ */
+export function revertComparison(store: StoreType, record: ComparisonRecord): StoreType {
+	const { event, previous } = record;
+	const events = [...store.events];
+	for (let i = events.length - 1; i >= 0; i--) {
+		const e = events[i];
+		if (e.t === event.t && e.a === event.a && e.b === event.b) {
+			events.splice(i, 1);
+			break;
+		}
+	}
+
+	const ratings = { ...store.ratings };
+	setRating(ratings, event.a, previous[0]);
+	setRating(ratings, event.b, previous[1]);
+
+	const snapshots = trimSnapshots(store.snapshots ?? [], events.length);
+	const tournament = record.tournaments ? record.tournaments[0] : store.tournament;
+	return { ...store, events, ratings, snapshots, tournament };
+}
+
+/**
+ * Re-applies a previously reverted comparison to the store, with the snapshot the undo
+ * dropped if one was due at it
+ */
+export function reapplyComparison(store: StoreType, record: ComparisonRecord): StoreType {
+	const { event, next } = record;
+	const ratings = { ...store.ratings };
+	setRating(ratings, event.a, next[0]);
+	setRating(ratings, event.b, next[1]);
+
+	const events = [...store.events, event];
+	const snapshots = store.snapshots && addSnapshotIfDue(store.snapshots, events.length, ratings);
+	const tournament = record.tournaments ? record.tournaments[1] : store.tournament;
+	return { ...store, events, ratings, snapshots, tournament };
+}
+
+/**
+ * Applies stored rating data to the matching in-memory items
+ */
+export function applyRatingsToItems(
+	items: SelectedFile[],
+	ratings: Record<string, FileEloData | undefined>
+): SelectedFile[] {
+	return items.map((item) => {
+		if (!(item.id in ratings)) return item;
+		const data = ratings[item.id];
+		return {
+			...item,
+			rating: data?.rating ?? DEFAULT_RATING,
+			games: data?.games ?? 0,
+			last: data?.last,
+			rd: data?.rd,
+			volatility: data?.volatility,
+		};
+	});
+}
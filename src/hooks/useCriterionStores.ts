@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Vault } from 'obsidian';
+import type { StoreType } from '../types';
+import { readStoreRevision, saveStoreCopy, storeEvents } from '../storage';
+import { getCriterionStoreName } from '../helpers/criteria';
+
+/**
+ * Loads the stores of several criteria of a type, keyed by criterion id.
+ * Read-only users can follow every write; writers only reload after outside changes,
+ * so a reload can't overwrite their own newer state.
+ */
+export function useCriterionStores(
+	vault: Vault,
+	typeName: string,
+	criterionIds: string[],
+	followWrites: boolean,
+	enabled = true
+) {
+	const [stores, setStores] = useState<Record<string, StoreType> | null>(null);
+	const idsKey = criterionIds.join('\n');
+	// Outside rewrites each loaded copy includes, by criterion id
+	const seenRewrites = useRef<Record<string, number>>({});
+
+	useEffect(() => {
+		if (!enabled) return;
+		let cancelled = false;
+		const ids = idsKey ? idsKey.split('\n') : [];
+		const names = new Set(ids.map((id) => getCriterionStoreName(typeName, id)));
+
+		const load = async () => {
+			try {
+				const loaded: Record<string, StoreType> = {};
+				const revisions: Record<string, number> = {};
+				for (const id of ids) {
+					const name = getCriterionStoreName(typeName, id);
+					const read = await readStoreRevision(vault, name);
+					loaded[id] = read.store;
+					revisions[id] = read.revision;
+				}
+				if (cancelled) return;
+				seenRewrites.current = revisions;
+				setStores(loaded);
+			} catch (e) {
+				console.error('[EloCompare] Failed to load criterion stores', e);
+			}
+		};
+		load();
+
+		const onStoreEvent = (name: string) => {
+			if (names.has(name)) load();
+		};
+		const refs = [storeEvents.on('changed', onStoreEvent)];
+		if (followWrites) refs.push(storeEvents.on('written', onStoreEvent));
+
+		return () => {
+			cancelled = true;
+			refs.forEach((ref) => storeEvents.offref(ref));
+		};
+	}, [vault, typeName, idsKey, followWrites, enabled]);
+
+	const updateStore = useCallback(
+		async (criterionId: string, store: StoreType) => {
+			setStores((current) => ({ ...current, [criterionId]: store }));
+			try {
+				const name = getCriterionStoreName(typeName, criterionId);
+				const seen = seenRewrites.current[criterionId] ?? 0;
+				const saved = await saveStoreCopy(vault, name, store, seen);
+				seenRewrites.current[criterionId] = Math.max(seen, saved.revision);
+			} catch (e) {
+				console.error('Failed to persist store', e);
+			}
+		},
+		[vault, typeName]
+	);
+
+	return { stores, updateStore };
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Vault, MetadataCache } from 'obsidian';
-import type { SelectedFile, EloCompareSettings } from '../types';
+import type { SelectedFile, ComparisonTypeConfig } from '../types';
 import { convertFilesToSelectedFiles } from '../helpers/file-filtering';
 
 /**
@@ -9,7 +9,7 @@ import { convertFilesToSelectedFiles } from '../helpers/file-filtering';
 export function useSelectedFiles(
 	vault: Vault,
 	metadata: MetadataCache,
-	settings: EloCompareSettings,
+	typeConfig: ComparisonTypeConfig,
 	defaultPool: string
 ) {
 	const [selectedFiles, setSelectedFiles] = useState<SelectedFile[] | null>(null);
@@ -23,7 +23,7 @@ export function useSelectedFiles(
 		try {
 			const files = await convertFilesToSelectedFiles(
 				vault.getMarkdownFiles(),
-				settings,
+				typeConfig,
 				metadata,
 				defaultPool
 			);
@@ -33,7 +33,7 @@ export function useSelectedFiles(
 		} finally {
 			setLoading(false);
 		}
-	}, [vault, metadata, settings, defaultPool]);
+	}, [vault, metadata, typeConfig, defaultPool]);
 
 	useEffect(() => {
 		let cancelled = false;
@@ -45,7 +45,7 @@ export function useSelectedFiles(
 			try {
 				const files = await convertFilesToSelectedFiles(
 					vault.getMarkdownFiles(),
-					settings,
+					typeConfig,
 					metadata,
 					defaultPool
 				);
@@ -66,7 +66,7 @@ export function useSelectedFiles(
 		return () => {
 			cancelled = true;
 		};
-	}, [vault, metadata, settings, defaultPool]);
+	}, [vault, metadata, typeConfig, defaultPool]);
 
 	return { selectedFiles, loading, error, reload };
 }
@@ -1,23 +1,30 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Vault } from 'obsidian';
 import type { StoreType } from '../types';
-import { readStore, writeStore } from '../storage';
+import { readStoreRevision, saveStoreCopy, storeEvents } from '../storage';
 
 /**
  * Custom hook for loading and managing the Elo store
  */
 export function useStore(vault: Vault, comparisonType: string = 'default') {
 	const [store, setStore] = useState<StoreType | null>(null);
+	// Incremented whenever the store was reloaded after an outside change
+	const [revision, setRevision] = useState(0);
+	// Outside rewrites the loaded copy includes; saves apply the ones made since
+	const seenRewrites = useRef(0);
 
 	useEffect(() => {
 		console.log('[EloCompare] Loading store for type:', comparisonType);
 		let cancelled = false;
+		// Don't show the previous type's data while loading
+		setStore(null);
 
 		(async () => {
 			try {
-				const storeData = await readStore(vault, comparisonType);
+				const loaded = await readStoreRevision(vault, comparisonType);
 				if (!cancelled) {
-					setStore(storeData);
+					seenRewrites.current = loaded.revision;
+					setStore(loaded.store);
 				}
 			} catch (e) {
 				console.error('[EloCompare] Failed to load store', e);
@@ -33,11 +40,40 @@ export function useStore(vault: Vault, comparisonType: string = 'default') {
 		};
 	}, [vault, comparisonType]);
 
+	// Reload when the store is rewritten elsewhere (e.g. after a note was renamed)
+	useEffect(() => {
+		let cancelled = false;
+		const ref = storeEvents.on('changed', async (changedType) => {
+			if (changedType !== comparisonType) return;
+			try {
+				const loaded = await readStoreRevision(vault, comparisonType);
+				if (!cancelled) {
+					seenRewrites.current = loaded.revision;
+					setStore(loaded.store);
+					setRevision((r) => r + 1);
+				}
+			} catch (e) {
+				console.error('[EloCompare] Failed to reload store', e);
+			}
+		});
+
+		return () => {
+			cancelled = true;
+			storeEvents.offref(ref);
+		};
+	}, [vault, comparisonType]);
+
 	const updateStore = useCallback(
 		async (newStore: StoreType) => {
 			setStore(newStore);
 			try {
-				await writeStore(vault, newStore, comparisonType);
+				const saved = await saveStoreCopy(
+					vault,
+					comparisonType,
+					newStore,
+					seenRewrites.current
+				);
+				seenRewrites.current = Math.max(seenRewrites.current, saved.revision);
 			} catch (e) {
 				console.error('Failed to persist store', e);
 			}
@@ -45,6 +81,6 @@ export function useStore(vault: Vault, comparisonType: string = 'default') {
 		[vault, comparisonType]
 	);
 
-	return { store, updateStore };
+	return { store, updateStore, revision };
 }
 
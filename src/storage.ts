@@ -1,5 +1,25 @@
+import { Events } from 'obsidian';
 import type { Vault } from 'obsidian';
-import type { EloEvent, FileEloData, StoreType } from './types';
+import type {
+	EloEvent,
+	FileEloData,
+	RatingSnapshot,
+	SessionSummary,
+	SkippedPair,
+	StoreType,
+	Tournament,
+} from './types';
+import { getBaselines } from './helpers/event-log';
+
+/**
+ * Notifies open views when a type's store was changed outside of them ('changed'),
+ * and read-only renderers whenever a store was written ('written')
+ */
+export const storeEvents = new Events();
+
+export function notifyStoreChanged(comparisonType: string): void {
+	storeEvents.trigger('changed', comparisonType);
+}
 
 export function getStorageBasePath(vault: Vault): string {
 	return `${vault.configDir}/plugins/obsidian-elo-compare/history`;
@@ -13,6 +33,36 @@ export function getRatingsPath(vault: Vault, comparisonType: string = 'default')
 	return `${getStorageBasePath(vault)}/ratings-${comparisonType}.json`;
 }
 
+export function getSnapshotsPath(vault: Vault, comparisonType = 'default'): string {
+	return `${getStorageBasePath(vault)}/snapshots-${comparisonType}.json`;
+}
+
+export function getSkippedPath(vault: Vault, comparisonType = 'default'): string {
+	return `${getStorageBasePath(vault)}/skipped-${comparisonType}.json`;
+}
+
+export function getTournamentPath(vault: Vault, comparisonType = 'default'): string {
+	return `${getStorageBasePath(vault)}/tournament-${comparisonType}.json`;
+}
+
+export function getSessionsPath(vault: Vault, comparisonType = 'default'): string {
+	return `${getStorageBasePath(vault)}/sessions-${comparisonType}.json`;
+}
+
+/**
+ * Gets all storage file paths of a comparison type
+ */
+export function getTypeStoragePaths(vault: Vault, comparisonType: string): string[] {
+	return [
+		getEventsPath(vault, comparisonType),
+		getRatingsPath(vault, comparisonType),
+		getSnapshotsPath(vault, comparisonType),
+		getSkippedPath(vault, comparisonType),
+		getTournamentPath(vault, comparisonType),
+		getSessionsPath(vault, comparisonType),
+	];
+}
+
 /**
  * Read all events from storage
  */
@@ -38,7 +88,7 @@ export async function writeEvents(vault: Vault, events: EloEvent[], comparisonTy
 	const folder = getStorageBasePath(vault);
 
 	await vault.adapter.mkdir(folder);
-	await vault.adapter.write(eventsPath, JSON.stringify(events, null, 2));
+	await vault.adapter.write(eventsPath, JSON.stringify(events));
 }
 
 /**
@@ -73,6 +123,153 @@ export async function writeRatings(
 	await vault.adapter.write(ratingsPath, JSON.stringify(ratings, null, 2));
 }
 
+/**
+ * Read all rating snapshots from storage
+ */
+export async function readSnapshots(
+	vault: Vault,
+	comparisonType = 'default'
+): Promise<RatingSnapshot[] | null> {
+	const snapshotsPath = getSnapshotsPath(vault, comparisonType);
+	try {
+		if (await vault.adapter.exists(snapshotsPath)) {
+			const raw = await vault.adapter.read(snapshotsPath);
+			const data = JSON.parse(raw);
+			return Array.isArray(data) ? data : null;
+		}
+	} catch (e) {
+		console.error('Failed to read snapshots', e);
+	}
+	return null;
+}
+
+/**
+ * Write all rating snapshots to storage
+ */
+export async function writeSnapshots(
+	vault: Vault,
+	snapshots: RatingSnapshot[],
+	comparisonType = 'default'
+): Promise<void> {
+	await vault.adapter.mkdir(getStorageBasePath(vault));
+	await vault.adapter.write(getSnapshotsPath(vault, comparisonType), JSON.stringify(snapshots));
+}
+
+/**
+ * Read skipped pairs from storage
+ */
+export async function readSkipped(
+	vault: Vault,
+	comparisonType = 'default'
+): Promise<Record<string, SkippedPair>> {
+	const skippedPath = getSkippedPath(vault, comparisonType);
+	try {
+		if (await vault.adapter.exists(skippedPath)) {
+			const raw = await vault.adapter.read(skippedPath);
+			const data = JSON.parse(raw);
+			return typeof data === 'object' && data !== null ? data : {};
+		}
+	} catch (e) {
+		console.error('Failed to read skipped pairs', e);
+	}
+	return {};
+}
+
+/**
+ * Write skipped pairs to storage
+ */
+export async function writeSkipped(
+	vault: Vault,
+	skipped: Record<string, SkippedPair>,
+	comparisonType = 'default'
+): Promise<void> {
+	await vault.adapter.mkdir(getStorageBasePath(vault));
+	await vault.adapter.write(getSkippedPath(vault, comparisonType), JSON.stringify(skipped));
+}
+
+/**
+ * Read the current tournament from storage
+ */
+export async function readTournament(
+	vault: Vault,
+	comparisonType = 'default'
+): Promise<Tournament | undefined> {
+	const tournamentPath = getTournamentPath(vault, comparisonType);
+	try {
+		if (await vault.adapter.exists(tournamentPath)) {
+			const raw = await vault.adapter.read(tournamentPath);
+			const data = JSON.parse(raw);
+			return typeof data === 'object' && data !== null ? data : undefined;
+		}
+	} catch (e) {
+		console.error('Failed to read tournament', e);
+	}
+	return undefined;
+}
+
+/**
+ * Write the current tournament to storage, removing the file when there is none
+ */
+export async function writeTournament(
+	vault: Vault,
+	tournament: Tournament | undefined,
+	comparisonType = 'default'
+): Promise<void> {
+	const tournamentPath = getTournamentPath(vault, comparisonType);
+	if (tournament) {
+		await vault.adapter.mkdir(getStorageBasePath(vault));
+		await vault.adapter.write(tournamentPath, JSON.stringify(tournament));
+	} else if (await vault.adapter.exists(tournamentPath)) {
+		await vault.adapter.remove(tournamentPath);
+	}
+}
+
+/**
+ * Read the completed session summaries from storage
+ */
+export async function readSessions(
+	vault: Vault,
+	comparisonType = 'default'
+): Promise<SessionSummary[]> {
+	const sessionsPath = getSessionsPath(vault, comparisonType);
+	try {
+		if (await vault.adapter.exists(sessionsPath)) {
+			const raw = await vault.adapter.read(sessionsPath);
+			const data = JSON.parse(raw);
+			return Array.isArray(data) ? data : [];
+		}
+	} catch (e) {
+		console.error('Failed to read sessions', e);
+	}
+	return [];
+}
+
+/**
+ * Write the completed session summaries to storage, skipping the file while there are none
+ */
+export async function writeSessions(
+	vault: Vault,
+	sessions: SessionSummary[],
+	comparisonType = 'default'
+): Promise<void> {
+	const sessionsPath = getSessionsPath(vault, comparisonType);
+	if (sessions.length === 0 && !(await vault.adapter.exists(sessionsPath))) return;
+	await vault.adapter.mkdir(getStorageBasePath(vault));
+	await vault.adapter.write(sessionsPath, JSON.stringify(sessions));
+}
+
+/**
+ * Appends a session summary to a store's saved sessions, leaving the rest of the store alone
+ */
+export async function appendSession(
+	vault: Vault,
+	summary: SessionSummary,
+	comparisonType: string
+): Promise<void> {
+	const sessions = await readSessions(vault, comparisonType);
+	await writeSessions(vault, [...sessions, summary], comparisonType);
+}
+
 /**
  * Read the complete store (for backward compatibility with old store.json)
  */
@@ -87,6 +284,11 @@ export async function readStore(vault: Vault, comparisonType: string = 'default'
 			version: 1,
 			events,
 			ratings,
+			// Missing for logs written before snapshots existed; their baseline gets fitted
+			snapshots: (await readSnapshots(vault, comparisonType)) ?? undefined,
+			skipped: await readSkipped(vault, comparisonType),
+			tournament: await readTournament(vault, comparisonType),
+			sessions: await readSessions(vault, comparisonType),
 		};
 	}
 
@@ -129,6 +331,9 @@ export async function readStore(vault: Vault, comparisonType: string = 'default'
 		version: 1,
 		events: [],
 		ratings: {},
+		skipped: await readSkipped(vault, comparisonType),
+		tournament: await readTournament(vault, comparisonType),
+		sessions: await readSessions(vault, comparisonType),
 	};
 }
 
@@ -138,23 +343,298 @@ export async function readStore(vault: Vault, comparisonType: string = 'default'
 export async function writeStore(vault: Vault, store: StoreType, comparisonType: string = 'default'): Promise<void> {
 	await writeEvents(vault, store.events, comparisonType);
 	await writeRatings(vault, store.ratings, comparisonType);
+	if (store.snapshots) {
+		await writeSnapshots(vault, store.snapshots, comparisonType);
+	} else if (await vault.adapter.exists(getSnapshotsPath(vault, comparisonType))) {
+		// Without snapshots the log's baseline is fitted again, as for a legacy log
+		await vault.adapter.remove(getSnapshotsPath(vault, comparisonType));
+	}
+	await writeSkipped(vault, store.skipped ?? {}, comparisonType);
+	await writeTournament(vault, store.tournament, comparisonType);
+	await writeSessions(vault, store.sessions ?? [], comparisonType);
+	storeEvents.trigger('written', comparisonType);
+}
+
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs store tasks one after another, so a rewrite can't interleave with a view's save.
+ * A failed task is reported to its caller without blocking later ones.
+ */
+export function queueStoreTask<T>(task: () => Promise<T>): Promise<T> {
+	const result = storeQueue.then(task);
+	storeQueue = result.catch(() => undefined);
+	return result;
+}
+
+// Changes a store, or returns null when it is unaffected
+export type StoreRewrite = (store: StoreType) => StoreType | null;
+
+// Rewrites made to each store outside of its views (e.g. for a renamed note), in order.
+// A view saving a copy read before some of them applies those to it first.
+const storeRewrites = new Map<string, StoreRewrite[]>();
+
+/**
+ * Reads a store with its revision: the number of outside rewrites it includes
+ */
+export function readStoreRevision(
+	vault: Vault,
+	comparisonType: string
+): Promise<{ store: StoreType; revision: number }> {
+	return queueStoreTask(async () => ({
+		store: await readStore(vault, comparisonType),
+		revision: storeRewrites.get(comparisonType)?.length ?? 0,
+	}));
+}
+
+/**
+ * Applies a rewrite to a store outside of its views and saves it if it changed.
+ * Must run as a queued store task. Resolves with whether the store changed.
+ */
+export async function rewriteStore(
+	vault: Vault,
+	comparisonType: string,
+	rewrite: StoreRewrite
+): Promise<boolean> {
+	const rewrites = storeRewrites.get(comparisonType) ?? [];
+	storeRewrites.set(comparisonType, [...rewrites, rewrite]);
+	const updated = rewrite(await readStore(vault, comparisonType));
+	if (!updated) return false;
+	await writeStore(vault, updated, comparisonType);
+	return true;
+}
+
+/**
+ * Saves a view's copy of a store that was read at the given revision, after applying the
+ * outside rewrites made since. Resolves with the saved store and its revision.
+ */
+export function saveStoreCopy(
+	vault: Vault,
+	comparisonType: string,
+	store: StoreType,
+	revision: number
+): Promise<{ store: StoreType; revision: number }> {
+	return queueStoreTask(async () => {
+		const missed = (storeRewrites.get(comparisonType) ?? []).slice(revision);
+		const saved = missed.reduce((current, rewrite) => rewrite(current) ?? current, store);
+		await writeStore(vault, saved, comparisonType);
+		return { store: saved, revision: revision + missed.length };
+	});
 }
 
 /**
- * Delete all storage files for a comparison type
+ * Delete all storage files for a comparison type.
+ * Tries every file and rejects afterwards if any of them couldn't be deleted.
  */
 export async function deleteTypeStorage(vault: Vault, comparisonType: string): Promise<void> {
-	const eventsPath = getEventsPath(vault, comparisonType);
-	const ratingsPath = getRatingsPath(vault, comparisonType);
-	
+	const failed: string[] = [];
+	for (const path of getTypeStoragePaths(vault, comparisonType)) {
+		try {
+			if (await vault.adapter.exists(path)) {
+				await vault.adapter.remove(path);
+			}
+		} catch (e) {
+			console.error('Failed to delete type storage', path, e);
+			failed.push(path);
+		}
+	}
+	if (failed.length > 0) {
+		throw new Error(`Failed to delete ${failed.join(', ')}`);
+	}
+}
+
+/**
+ * Finds the stores of a type's criteria on disk, including criteria no longer configured
+ */
+export async function findCriterionStores(
+	vault: Vault,
+	comparisonType: string
+): Promise<string[]> {
+	const folder = getStorageBasePath(vault);
+	if (!(await vault.adapter.exists(folder))) return [];
+
+	const prefix = `${comparisonType}.`;
+	const names = new Set<string>();
+	for (const path of (await vault.adapter.list(folder)).files) {
+		const match = path
+			.slice(path.lastIndexOf('/') + 1)
+			.match(/^(?:events|ratings|snapshots|skipped|tournament|sessions)-(.+)\.json$/);
+		if (match && match[1].startsWith(prefix)) {
+			names.add(match[1]);
+		}
+	}
+	return Array.from(names).sort();
+}
+
+/**
+ * Merges the events and ratings of two stores.
+ * Events are combined in time order; for items rated in both, the entry with more games wins.
+ * Periodic snapshots no longer match the merged log and are dropped, baselines stay after
+ * the same events; a tournament in the target wins. Session summaries of both are kept.
+ */
+export function mergeStores(target: StoreType, source: StoreType): StoreType {
+	const merged = [
+		...target.events.map((event) => ({ event, store: target })),
+		...source.events.map((event) => ({ event, store: source })),
+	].sort((x, y) => x.event.t - y.event.t);
+	const events = merged.map(({ event }) => event);
+
+	// Baselines stay right after the same event of their own log. A log without saved
+	// snapshots has no known baseline yet, so the merged log gets its baseline fitted.
+	const unfitted = [target, source].some((s) => !s.snapshots && s.events.length > 0);
+	const snapshots = unfitted
+		? undefined
+		: [target, source].flatMap((store) => {
+				// Merged index after each number of the store's own events
+				const positions = [0];
+				merged.forEach((entry, i) => {
+					if (entry.store === store) positions.push(i + 1);
+				});
+				return getBaselines(store.snapshots ?? []).map((s) => ({
+					...s,
+					events: positions[s.events] ?? events.length,
+				}));
+			});
+
+	const ratings = { ...target.ratings };
+	for (const [id, data] of Object.entries(source.ratings)) {
+		const existing = ratings[id];
+		if (!existing || data.games > existing.games) {
+			ratings[id] = data;
+		}
+	}
+	const skipped = { ...target.skipped };
+	for (const [key, data] of Object.entries(source.skipped ?? {})) {
+		const existing = skipped[key];
+		skipped[key] = existing
+			? { count: existing.count + data.count, t: Math.max(existing.t, data.t) }
+			: data;
+	}
+	return {
+		version: 1,
+		events,
+		ratings,
+		snapshots,
+		skipped,
+		tournament: target.tournament ?? source.tournament,
+		sessions: [...(target.sessions ?? []), ...(source.sessions ?? [])].sort(
+			(x, y) => x.started - y.started
+		),
+	};
+}
+
+/**
+ * Reads the raw content of a file, or null if it doesn't exist
+ */
+async function readRaw(vault: Vault, path: string): Promise<string | null> {
+	return (await vault.adapter.exists(path)) ? vault.adapter.read(path) : null;
+}
+
+/**
+ * Restores a file to its raw content, removing it if it didn't exist
+ */
+async function restoreRaw(vault: Vault, path: string, raw: string | null): Promise<void> {
+	if (raw !== null) {
+		await vault.adapter.write(path, raw);
+	} else if (await vault.adapter.exists(path)) {
+		await vault.adapter.remove(path);
+	}
+}
+
+/**
+ * Moves the storage of a comparison type to another type, merging with existing data.
+ * If writing the target fails, the target files are rolled back and the source is kept.
+ */
+export async function moveTypeStorage(vault: Vault, fromType: string, toType: string): Promise<void> {
+	if (fromType === toType) return;
+
+	let hasSource = false;
+	for (const path of getTypeStoragePaths(vault, fromType)) {
+		hasSource = hasSource || (await vault.adapter.exists(path));
+	}
+	if (!hasSource) return;
+
+	const source = await readStore(vault, fromType);
+	const target = await readStore(vault, toType);
+	const merged = mergeStores(target, source);
+	// Into an empty type the source's snapshots still match its log, so they are kept
+	if (target.events.length === 0 && Object.keys(target.ratings).length === 0) {
+		merged.snapshots = source.snapshots;
+	}
+
+	const targetPaths = getTypeStoragePaths(vault, toType);
+	const backups: Array<[string, string | null]> = [];
+	for (const path of targetPaths) {
+		backups.push([path, await readRaw(vault, path)]);
+	}
+
 	try {
-		if (await vault.adapter.exists(eventsPath)) {
-			await vault.adapter.remove(eventsPath);
+		await writeStore(vault, merged, toType);
+	} catch (e) {
+		console.error('[EloCompare] Failed to move storage, rolling back', e);
+		for (const [path, raw] of backups) {
+			await restoreRaw(vault, path, raw);
 		}
-		if (await vault.adapter.exists(ratingsPath)) {
-			await vault.adapter.remove(ratingsPath);
+		throw e;
+	}
+
+	await deleteTypeStorage(vault, fromType);
+}
+
+/**
+ * Moves the storage of a type and of its criteria ("<type>.<criterion>") to another type.
+ * If any of the moves fails, every file involved is restored and the error is rethrown.
+ */
+export async function moveTypeStorageWithCriteria(
+	vault: Vault,
+	fromType: string,
+	toType: string
+): Promise<void> {
+	if (fromType === toType) return;
+
+	const moves = [fromType, ...(await findCriterionStores(vault, fromType))].map(
+		(name): [string, string] => [name, toType + name.slice(fromType.length)]
+	);
+	const backups: Array<[string, string | null]> = [];
+	const paths = moves.flatMap(([from, to]) => [
+		...getTypeStoragePaths(vault, from),
+		...getTypeStoragePaths(vault, to),
+	]);
+	for (const path of paths) {
+		backups.push([path, await readRaw(vault, path)]);
+	}
+
+	try {
+		for (const [from, to] of moves) {
+			await moveTypeStorage(vault, from, to);
 		}
 	} catch (e) {
-		console.error('Failed to delete type storage', e);
+		console.error('[EloCompare] Failed to move type storage, rolling back', e);
+		for (const [path, raw] of backups) {
+			await restoreRaw(vault, path, raw);
+		}
+		throw e;
+	}
+}
+
+/**
+ * Finds comparison types that have storage files but no configuration.
+ * Criterion stores ("<type>.<criterion>") are listed as their type.
+ */
+export async function findOrphanedTypes(vault: Vault, knownTypes: string[]): Promise<string[]> {
+	const folder = getStorageBasePath(vault);
+	if (!(await vault.adapter.exists(folder))) return [];
+
+	const listed = await vault.adapter.list(folder);
+	const orphans = new Set<string>();
+	for (const path of listed.files) {
+		const match = path
+			.slice(path.lastIndexOf('/') + 1)
+			.match(/^(?:events|ratings|snapshots|skipped|tournament|sessions)-(.+)\.json$/);
+		const typeName = match?.[1].split('.')[0];
+		if (typeName && !knownTypes.includes(typeName)) {
+			orphans.add(typeName);
+		}
 	}
+	return Array.from(orphans).sort();
 }
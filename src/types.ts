@@ -1,11 +1,57 @@
 import { FrontMatterCache, TFile, App, MetadataCache, Vault } from 'obsidian';
 
+export type FilterGroup = {
+	type: 'group';
+	mode: 'and' | 'or';
+	conditions: FilterCondition[];
+};
+
+export type FilterCondition =
+	| { type: 'property-exists'; property: string }
+	| { type: 'property-equals'; property: string; value: string }
+	| { type: 'property-in'; property: string; values: string[] }
+	| { type: 'tag'; tag: string }
+	| { type: 'name-regex'; pattern: string }
+	| FilterGroup;
+
+export type RatingEngineId = 'elo' | 'glicko2' | 'trueskill';
+
+export type PairStrategyId = 'balanced' | 'closest' | 'uncertainty' | 'information' | 'top-k';
+
+export interface Criterion {
+	id: string; // Part of the storage file names, kept when the name changes
+	name: string;
+	weight?: number; // Weight in the combined ranking, defaults to 1
+	archived?: boolean; // Hidden from comparisons and the combined ranking; its data is kept
+}
+
 export type ComparisonTypeConfig = {
 	name: string; // Internal identifier (e.g., "books", "movies")
 	displayName: string; // User-friendly display name (e.g., "Books", "Movies")
 	defaultFolder: string;
 	frontmatterProperty: string;
 	includeSubfolders?: boolean;
+	filter?: FilterGroup; // Inclusion filter on top of the folder; empty or missing matches all
+	ratingEngine?: RatingEngineId; // Defaults to 'elo'
+	kFactor?: number; // Base K-factor, defaults to DEFAULT_K_FACTOR
+	dynamicKFactor?: boolean; // Use a higher, decaying K-factor for provisional items
+	provisionalGames?: number; // Items with fewer games are provisional
+	provisionalKFactor?: number; // K-factor for an item's first game, decays to kFactor
+	ratingBandThreshold?: number; // Items at or above this rating use ratingBandKFactor
+	ratingBandKFactor?: number;
+	pairStrategy?: PairStrategyId; // Defaults to 'balanced'
+	explorationRate?: number; // Chance (0-1) of a balanced random pair instead of the strategy
+	topK?: number; // Size of the top set the 'top-k' strategy focuses on
+	topKStableWindow?: number; // Comparisons without a change for the top set to count as settled
+	pairCooldown?: number; // Rounds before the same pair is offered again
+	itemCooldown?: number; // Rounds before the same item is offered again
+	historyRetention?: 'all' | 'count' | 'age'; // What the history list shows; the log keeps everything
+	historyRetentionCount?: number;
+	historyRetentionDays?: number;
+	writeToFrontmatter?: boolean; // Write the rating into frontmatterProperty after each comparison
+	writeGamesToFrontmatter?: boolean; // Also write games as "<property>-games"
+	writeLastToFrontmatter?: boolean; // Also write last compared date as "<property>-last"
+	criteria?: Criterion[]; // Separately ranked aspects, each with its own ratings and history
 };
 
 export type EloCompareSettings = {
@@ -31,6 +77,8 @@ export interface SelectedFile {
 	games: number;
 	pool: string;
 	last?: string;
+	rd?: number; // Rating deviation (Glicko-2 / TrueSkill)
+	volatility?: number; // Rating volatility (Glicko-2)
 }
 
 export type Outcome = 0 | 0.5 | 1; // score for "a"
@@ -47,12 +95,102 @@ export interface FileEloData {
 	games: number;
 	pool: string;
 	last?: string;
+	deleted?: string; // ISO date the note was deleted; kept so history survives
+	rd?: number; // Rating deviation (Glicko-2 / TrueSkill)
+	volatility?: number; // Rating volatility (Glicko-2)
+}
+
+/**
+ * Rating state of one item as seen by a rating engine
+ */
+export interface RatingState {
+	rating: number;
+	rd?: number;
+	volatility?: number;
+}
+
+export interface RatingEngineOptions {
+	kFactorA: number; // K-factor for item a, only used by Elo
+	kFactorB: number; // K-factor for item b, only used by Elo
+}
+
+export interface RatingEngine {
+	id: RatingEngineId;
+	name: string;
+	description: string;
+	// Fills in engine-specific defaults for a stored or new item
+	initialState: (stored?: RatingState) => RatingState;
+	// Updates both items after a comparison; sA is the score of a
+	update: (
+		a: RatingState,
+		b: RatingState,
+		sA: Outcome,
+		options: RatingEngineOptions
+	) => readonly [RatingState, RatingState];
+}
+
+export interface RatingSnapshot {
+	events: number; // Number of events replayed into these ratings
+	t: number; // timestamp
+	ratings: Record<string, FileEloData>;
+	// Ratings the events before it don't explain (a pruned legacy log, imported ratings),
+	// set over the replayed ones when a replay reaches it; it may only cover some items
+	baseline?: boolean;
+}
+
+export interface SkippedPair {
+	count: number; // How often the pair was skipped
+	t: number; // timestamp of the last skip
+}
+
+export type TournamentFormat = 'swiss' | 'elimination';
+
+export interface TournamentMatch {
+	a: string;
+	b?: string; // Missing for a bye, which counts as a win for a
+	s?: Outcome; // Score of a once played
+	t?: number; // timestamp of the result
+}
+
+export interface Tournament {
+	name: string;
+	format: TournamentFormat;
+	participants: string[]; // Item ids by seed, highest rated first
+	rounds: TournamentMatch[][]; // Rounds paired so far, the last one is in progress
+	totalRounds: number;
+	started: number; // timestamp
+	finished?: number; // timestamp
+}
+
+export type SessionGoal =
+	{ kind: 'comparisons'; count: number } | { kind: 'time'; minutes: number };
+
+export interface SessionRatingChange {
+	id: string;
+	name: string; // Note name when the session ended
+	before: number;
+	after: number;
+}
+
+export interface SessionSummary {
+	goal: SessionGoal;
+	started: number; // timestamp
+	ended: number; // timestamp
+	comparisons: number;
+	reachedGoal: boolean;
+	risers: SessionRatingChange[]; // Biggest gains, largest first
+	fallers: SessionRatingChange[]; // Biggest losses, largest first
+	leftProvisional: Array<{ id: string; name: string }>;
 }
 
 export interface StoreType {
 	version: 1;
 	events: EloEvent[]; // append-only
 	ratings: Record<string, FileEloData>; // file path -> ELO data
+	snapshots?: RatingSnapshot[]; // periodic ratings, so replays don't start from scratch
+	skipped?: Record<string, SkippedPair>; // pair key -> skips, deprioritized when pairing
+	tournament?: Tournament; // Tournament in progress or last finished
+	sessions?: SessionSummary[]; // Completed sessions, oldest first
 }
 
 export type HistoryType = {
@@ -62,4 +200,30 @@ export type HistoryType = {
 	winnerNewRating: number;
 	loserOldRating: number;
 	loserNewRating: number;
+	draw?: boolean; // winner/loser are just the two sides when the comparison was a draw
 };
+
+export interface ItemStats {
+	wins: number;
+	losses: number;
+	draws: number;
+}
+
+export interface ComparisonRecord {
+	event: EloEvent;
+	previous: [FileEloData | undefined, FileEloData | undefined]; // stored data of a and b before
+	next: [FileEloData, FileEloData]; // stored data of a and b after
+	historyEntry: HistoryType;
+	tournaments?: [Tournament, Tournament]; // Tournament before and after, for tournament matches
+}
+
+export interface ComparisonActions {
+	chooseLeft: () => void;
+	chooseRight: () => void;
+	draw: () => void;
+	skip: () => void;
+	undo: () => void;
+	redo: () => void;
+	removeLeft: () => void;
+	removeRight: () => void;
+}